@@ -1,32 +1,81 @@
 import React, { useState, useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { StatusBar } from 'expo-status-bar';
 import { Alert, Text } from 'react-native';
 
 // Screens
 import { OCRScreen } from './src/screens/OCRScreen';
 import { DiscogsSearchScreen } from './src/screens/DiscogsSearchScreen';
+import { BarcodeScanScreen } from './src/screens/BarcodeScanScreen';
 import { CollectionScreen } from './src/screens/CollectionScreen';
+import { RecordDetailScreen } from './src/screens/RecordDetailScreen';
+import { CollectionStatsScreen } from './src/screens/CollectionStatsScreen';
+import { DuplicatesScreen } from './src/screens/DuplicatesScreen';
+import { SettingsScreen } from './src/screens/SettingsScreen';
+import { CsvImportScreen } from './src/screens/CsvImportScreen';
+import { BackupRestoreScreen } from './src/screens/BackupRestoreScreen';
+import { WantlistScreen } from './src/screens/WantlistScreen';
 
 // Utils & Types
 import { api } from './src/utils/api';
-import type { VinylData, VinylRecord } from './src/types';
+import { discogsAccount } from './src/utils/discogsAccount';
+import { discogsImporter } from './src/utils/discogsImport';
+import { appSettings } from './src/utils/settings';
+import { runScheduledBackup } from './src/utils/backup';
+import {
+  DUPLICATE_KIND_LABELS,
+  DuplicateMatch,
+  findDuplicates,
+  mergeFields,
+} from './src/utils/duplicates';
+import { releaseToVinylData, wantlistItemToVinylData } from './src/utils/discogsMapping';
+import type { NewRecordInput } from './src/utils/discogsMapping';
+import { discogsAPI } from './src/utils/discogs';
+import { wantlist } from './src/utils/wantlist';
+import { valueRecord } from './src/utils/valuation';
+import { runOcrPipeline } from './src/utils/ocr';
+import type { FieldConfidence } from './src/utils/ocr';
+import type {
+  VinylData,
+  VinylRecord,
+  WantlistItem,
+  CollectionStackParamList,
+  SettingsStackParamList,
+  SearchStackParamList,
+} from './src/types';
 import type { DiscogsReleaseDetails } from './src/utils/discogs';
 
 const Tab = createBottomTabNavigator();
+const SearchStack = createNativeStackNavigator<SearchStackParamList>();
+const CollectionStack = createNativeStackNavigator<CollectionStackParamList>();
+const SettingsStack = createNativeStackNavigator<SettingsStackParamList>();
+
+const headerOptions = {
+  headerStyle: {
+    backgroundColor: '#1a1a1a',
+  },
+  headerTintColor: '#e8e8e8',
+};
 
 export default function App() {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [extractedData, setExtractedData] = useState<VinylData | null>(null);
+  const [fieldConfidence, setFieldConfidence] = useState<FieldConfidence>({});
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [records, setRecords] = useState<VinylRecord[]>([]);
   const [isLoadingRecords, setIsLoadingRecords] = useState(false);
 
-  // Load records on mount
+  // Load records, wantlist, stored Discogs credentials and any unfinished
+  // import on mount, then write an automatic backup if one is due
   useEffect(() => {
     loadRecords();
+    wantlist.load();
+    discogsAccount.load();
+    discogsImporter.load();
+    runScheduledBackup().catch(error => console.error('Error writing automatic backup:', error));
   }, []);
 
   const loadRecords = async () => {
@@ -36,30 +85,44 @@ export default function App() {
       setRecords(data || []);
     } catch (error) {
       console.error('Error loading records:', error);
-      Alert.alert('Error', 'Failed to load records');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load records');
     } finally {
       setIsLoadingRecords(false);
     }
   };
 
-  const handleImageUpload = (imageUrl: string) => {
+  const handleImageUpload = async (imageUrl: string) => {
     setUploadedImage(imageUrl);
     setIsProcessing(true);
 
-    // Simulate OCR processing
-    setTimeout(() => {
+    try {
+      const { data, confidence } = await runOcrPipeline(imageUrl);
+      setExtractedData(data);
+      setFieldConfidence(confidence);
+
+      if (!data.artistName && !data.albumName && !data.serialNumber) {
+        Alert.alert(
+          'No Text Found',
+          'No label text could be recognized. You can enter the data manually or use Discogs search.'
+        );
+      }
+    } catch (error) {
+      console.error('Error running OCR:', error);
       setExtractedData(null);
-      setIsProcessing(false);
+      setFieldConfidence({});
       Alert.alert(
-        'OCR Note',
-        'OCR processing requires cloud integration. For now, you can manually enter data or use Discogs search.'
+        'OCR Error',
+        error instanceof Error ? error.message : 'Failed to process image'
       );
-    }, 2000);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleReset = () => {
     setUploadedImage(null);
     setExtractedData(null);
+    setFieldConfidence({});
     setIsProcessing(false);
   };
 
@@ -67,6 +130,72 @@ export default function App() {
     setExtractedData(data);
   };
 
+  // Tell the user when a record was saved but couldn't be added on Discogs
+  const checkDiscogsSync = (record: VinylRecord) => {
+    if (record.syncToDiscogs && record.discogsInstanceId === undefined) {
+      Alert.alert(
+        'Not Synced',
+        'The record was saved, but it could not be added to your Discogs collection. You can retry from the record details.'
+      );
+      return false;
+    }
+    return true;
+  };
+
+  // Ask what to do with a new record that's already in the collection
+  const askAboutDuplicate = (match: DuplicateMatch) =>
+    new Promise<'cancel' | 'merge' | 'keepBoth'>(resolve => {
+      const { record, kind } = match;
+      Alert.alert(
+        'Already in Your Collection',
+        `This looks like "${record.albumName}" by ${record.artistName}, added ` +
+          `${new Date(record.createdAt).toLocaleDateString()} ` +
+          `(${DUPLICATE_KIND_LABELS[kind].toLowerCase()}).\n\n` +
+          'Merge fills in details that record is missing. Keep Both saves a second copy.',
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+          { text: 'Merge', onPress: () => resolve('merge') },
+          { text: 'Keep Both', onPress: () => resolve('keepBoth') },
+        ],
+        { cancelable: true, onDismiss: () => resolve('cancel') }
+      );
+    });
+
+  // Save a new record, checking for duplicates first. Returns null if the
+  // user cancelled, or the existing record if they merged into it.
+  const addRecord = async (
+    input: NewRecordInput
+  ): Promise<{ record: VinylRecord; merged: boolean } | null> => {
+    const [match] = findDuplicates(input, records);
+    if (!match) {
+      return { record: await api.createRecord(input), merged: false };
+    }
+
+    const choice = await askAboutDuplicate(match);
+    if (choice === 'cancel') {
+      return null;
+    }
+    if (choice === 'merge') {
+      // Syncing is turned on from the record itself, which adds it on Discogs
+      const { syncToDiscogs, ...details } = input;
+      const updates = mergeFields(match.record, [details]);
+      return { record: await api.updateRecord(match.record.id, updates), merged: true };
+    }
+    return {
+      record: await api.createRecord({ ...input, copyOf: match.record.id }),
+      merged: false,
+    };
+  };
+
+  // Tell the user a record was added (or merged into an existing one)
+  const reportAdded = (result: { record: VinylRecord; merged: boolean }, message: string) => {
+    if (result.merged) {
+      Alert.alert('Merged', 'Details were added to the record already in your collection.');
+    } else if (checkDiscogsSync(result.record)) {
+      Alert.alert('Success', message);
+    }
+  };
+
   const handleSaveRecord = async () => {
     if (!extractedData) {
       Alert.alert('No Data', 'Please extract or enter vinyl data first');
@@ -75,12 +204,17 @@ export default function App() {
 
     setIsSaving(true);
     try {
-      await api.createRecord({
+      const { syncNewRecordsToDiscogs } = await appSettings.get();
+      const result = await addRecord({
         ...extractedData,
         imageUrl: uploadedImage || undefined,
+        syncToDiscogs: syncNewRecordsToDiscogs && !!extractedData.discogsId,
       });
+      if (!result) {
+        return;
+      }
 
-      Alert.alert('Success', 'Record saved to collection!');
+      reportAdded(result, 'Record saved to collection!');
 
       // Reset form
       handleReset();
@@ -89,7 +223,7 @@ export default function App() {
       await loadRecords();
     } catch (error) {
       console.error('Error saving record:', error);
-      Alert.alert('Error', 'Failed to save record');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save record');
     } finally {
       setIsSaving(false);
     }
@@ -98,50 +232,117 @@ export default function App() {
   const handleSelectRelease = async (release: DiscogsReleaseDetails) => {
     setIsSaving(true);
     try {
-      // Extract data from Discogs release
-      const vinylData: Partial<VinylData> = {
-        artistName: release.artists?.[0]?.name || '',
-        albumName: release.title || '',
-        serialNumber: release.labels?.[0]?.catno || '',
-        matrixRunout: release.identifiers?.find(id => id.type === 'Matrix / Runout')?.value || '',
-        year: release.year,
-        country: release.country,
-        genre: release.genres,
-        style: release.styles,
-        label: release.labels?.[0]?.name,
-        format: release.formats?.[0]?.name,
-        discogsId: release.id,
-        discogsUrl: release.uri,
-      };
-
-      // Get cover image URL
-      const coverImageUrl = release.images?.[0]?.uri || release.images?.[0]?.uri150 || undefined;
-
-      await api.createRecord({
-        ...vinylData,
-        imageUrl: coverImageUrl,
+      // Extract data and cover image from Discogs release
+      const { syncNewRecordsToDiscogs } = await appSettings.get();
+      const result = await addRecord({
+        ...releaseToVinylData(release),
+        syncToDiscogs: syncNewRecordsToDiscogs,
       });
+      if (!result) {
+        return;
+      }
 
-      Alert.alert('Success', 'Record added to collection!');
+      reportAdded(result, 'Record added to collection!');
 
       // Reload records
       await loadRecords();
     } catch (error) {
       console.error('Error saving record:', error);
-      Alert.alert('Error', 'Failed to add record to collection');
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to add record to collection'
+      );
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleWantPurchased = async (item: WantlistItem) => {
+    try {
+      // Full release details add matrix data and country; offline, fall
+      // back to what the wantlist item has
+      let recordData: NewRecordInput;
+      try {
+        recordData = releaseToVinylData(await discogsAPI.getRelease(item.discogsId));
+      } catch (error) {
+        console.warn('Error fetching release details, using wantlist data:', error);
+        recordData = wantlistItemToVinylData(item);
+      }
+
+      const { syncNewRecordsToDiscogs } = await appSettings.get();
+      const result = await addRecord({
+        ...recordData,
+        syncToDiscogs: syncNewRecordsToDiscogs,
+      });
+      if (!result) {
+        return false;
+      }
+
+      reportAdded(result, 'Record moved to your collection!');
+      await loadRecords();
+      return true;
+    } catch (error) {
+      console.error('Error saving record:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to add record to collection'
+      );
+      return false;
+    }
+  };
+
+  const handleUpdateRecord = async (id: string, updates: Partial<VinylData>) => {
+    try {
+      await api.updateRecord(id, updates);
+      await loadRecords();
+      return true;
+    } catch (error) {
+      console.error('Error updating record:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update record');
+      return false;
+    }
+  };
+
+  const handleSetDiscogsSync = async (id: string, enabled: boolean) => {
+    try {
+      await api.setDiscogsSync(id, enabled);
+      await loadRecords();
+      return true;
+    } catch (error) {
+      console.error('Error syncing record to Discogs:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to add record to Discogs collection'
+      );
+      return false;
+    }
+  };
+
+  const handleValuateRecord = async (id: string) => {
+    const record = records.find(r => r.id === id);
+    if (!record) return false;
+
+    try {
+      await valueRecord(record);
+      await loadRecords();
+      return true;
+    } catch (error) {
+      console.error('Error valuing record:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update value');
+      return false;
+    }
+  };
+
   const handleDeleteRecord = async (id: string) => {
     try {
       await api.deleteRecord(id);
       Alert.alert('Deleted', 'Record removed from collection');
       await loadRecords();
+      return true;
     } catch (error) {
       console.error('Error deleting record:', error);
-      Alert.alert('Error', 'Failed to delete record');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete record');
+      return false;
     }
   };
 
@@ -178,6 +379,7 @@ export default function App() {
                 onReset={handleReset}
                 isProcessing={isProcessing}
                 extractedData={extractedData}
+                fieldConfidence={fieldConfidence}
                 onDataUpdate={handleDataUpdate}
                 onSave={handleSaveRecord}
                 isSaving={isSaving}
@@ -190,9 +392,31 @@ export default function App() {
             options={{
               title: 'Discogs',
               tabBarLabel: 'Search',
+              headerShown: false,
             }}
           >
-            {() => <DiscogsSearchScreen onSelectRelease={handleSelectRelease} />}
+            {() => (
+              <SearchStack.Navigator screenOptions={headerOptions}>
+                <SearchStack.Screen name="DiscogsSearch" options={{ title: 'Discogs' }}>
+                  {({ navigation }) => (
+                    <DiscogsSearchScreen
+                      onSelectRelease={handleSelectRelease}
+                      onScanBarcode={() => navigation.navigate('BarcodeScan')}
+                      onOpenSettings={() => navigation.getParent()?.navigate('Settings')}
+                    />
+                  )}
+                </SearchStack.Screen>
+
+                <SearchStack.Screen name="BarcodeScan" options={{ title: 'Scan Barcode' }}>
+                  {({ navigation }) => (
+                    <BarcodeScanScreen
+                      onSelectRelease={handleSelectRelease}
+                      onOpenSettings={() => navigation.getParent()?.navigate('Settings')}
+                    />
+                  )}
+                </SearchStack.Screen>
+              </SearchStack.Navigator>
+            )}
           </Tab.Screen>
 
           <Tab.Screen
@@ -201,15 +425,124 @@ export default function App() {
               title: 'Collection',
               tabBarLabel: 'Collection',
               tabBarBadge: records.length > 0 ? records.length : undefined,
+              headerShown: false,
             }}
           >
             {() => (
-              <CollectionScreen
-                records={records}
-                isLoading={isLoadingRecords}
-                onDelete={handleDeleteRecord}
-                onRefresh={loadRecords}
-              />
+              <CollectionStack.Navigator screenOptions={headerOptions}>
+                <CollectionStack.Screen
+                  name="CollectionList"
+                  options={{ title: 'Collection' }}
+                >
+                  {({ navigation }) => (
+                    <CollectionScreen
+                      records={records}
+                      isLoading={isLoadingRecords}
+                      onDelete={handleDeleteRecord}
+                      onRefresh={loadRecords}
+                      onSelect={record =>
+                        navigation.navigate('RecordDetail', { recordId: record.id })
+                      }
+                      onShowStats={() => navigation.navigate('CollectionStats')}
+                      onFindDuplicates={() => navigation.navigate('Duplicates')}
+                    />
+                  )}
+                </CollectionStack.Screen>
+
+                <CollectionStack.Screen
+                  name="RecordDetail"
+                  options={{ title: 'Record' }}
+                >
+                  {({ navigation, route }) => (
+                    <RecordDetailScreen
+                      record={records.find(r => r.id === route.params.recordId)}
+                      onUpdate={handleUpdateRecord}
+                      onSetDiscogsSync={handleSetDiscogsSync}
+                      onValuate={handleValuateRecord}
+                      onDelete={async id => {
+                        if (await handleDeleteRecord(id)) {
+                          navigation.goBack();
+                        }
+                      }}
+                    />
+                  )}
+                </CollectionStack.Screen>
+
+                <CollectionStack.Screen
+                  name="CollectionStats"
+                  options={{ title: 'Collection Stats' }}
+                >
+                  {() => <CollectionStatsScreen records={records} />}
+                </CollectionStack.Screen>
+
+                <CollectionStack.Screen
+                  name="Duplicates"
+                  options={{ title: 'Find Duplicates' }}
+                >
+                  {({ navigation }) => (
+                    <DuplicatesScreen
+                      records={records}
+                      onSelect={record =>
+                        navigation.navigate('RecordDetail', { recordId: record.id })
+                      }
+                      onChanged={loadRecords}
+                    />
+                  )}
+                </CollectionStack.Screen>
+              </CollectionStack.Navigator>
+            )}
+          </Tab.Screen>
+
+          <Tab.Screen
+            name="Wantlist"
+            options={{
+              title: 'Wantlist',
+              tabBarLabel: 'Wantlist',
+            }}
+          >
+            {() => <WantlistScreen onPurchased={handleWantPurchased} />}
+          </Tab.Screen>
+
+          <Tab.Screen
+            name="Settings"
+            options={{
+              title: 'Settings',
+              tabBarLabel: 'Settings',
+              headerShown: false,
+            }}
+          >
+            {() => (
+              <SettingsStack.Navigator screenOptions={headerOptions}>
+                <SettingsStack.Screen name="SettingsHome" options={{ title: 'Settings' }}>
+                  {({ navigation }) => (
+                    <SettingsScreen
+                      onCollectionChanged={loadRecords}
+                      onImportCsv={() => navigation.navigate('CsvImport')}
+                      onRestoreBackup={() => navigation.navigate('BackupRestore')}
+                    />
+                  )}
+                </SettingsStack.Screen>
+
+                <SettingsStack.Screen name="CsvImport" options={{ title: 'Import CSV' }}>
+                  {({ navigation }) => (
+                    <CsvImportScreen
+                      records={records}
+                      onImported={loadRecords}
+                      onDone={() => navigation.goBack()}
+                    />
+                  )}
+                </SettingsStack.Screen>
+
+                <SettingsStack.Screen name="BackupRestore" options={{ title: 'Restore Backup' }}>
+                  {({ navigation }) => (
+                    <BackupRestoreScreen
+                      records={records}
+                      onRestored={loadRecords}
+                      onDone={() => navigation.goBack()}
+                    />
+                  )}
+                </SettingsStack.Screen>
+              </SettingsStack.Navigator>
             )}
           </Tab.Screen>
         </Tab.Navigator>
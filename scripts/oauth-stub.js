@@ -0,0 +1,335 @@
+// ============================================================================
+// OAUTH STUB - Known-answer checks and a local stub Discogs OAuth server
+// ============================================================================
+// npm run check:oauth
+//   Checks src/utils/sha1.ts and oauth1.ts against published test vectors
+//   (FIPS 180 SHA-1, RFC 2202 HMAC-SHA1, the RFC 5849 / OAuth Core 1.0
+//   signature examples), then runs DiscogsOAuthClient from discogsAuth.ts
+//   through request token -> authorize -> access token -> /oauth/identity
+//   against the stub, once per signature method. Exits non-zero on failure.
+//
+// npm run oauth:stub [-- <port>]
+//   Only serves the stub (default port 8080), for running the app's sign-in
+//   against it (see "Connect Discogs" in the README).
+//
+// The stub checks every signature with Node's own crypto rather than the
+// app's SHA-1, so the two implementations are compared on each request.
+// ============================================================================
+
+const assert = require('assert');
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+// Load the app's TypeScript modules as CommonJS
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+// expo-crypto needs the native runtime; Node's crypto provides the same bytes
+const loadModule = Module._load;
+Module._load = function (request, ...rest) {
+  if (request === 'expo-crypto') {
+    return { getRandomBytes: length => new Uint8Array(crypto.randomBytes(length)) };
+  }
+  return loadModule.call(this, request, ...rest);
+};
+
+const UTILS = path.join(__dirname, '..', 'src', 'utils');
+
+const CONSUMER = { key: 'stub-consumer-key', secret: 'stub-consumer-secret' };
+const REQUEST_TOKEN = { token: 'stub-request-token', secret: 'stub-request-secret' };
+const ACCESS_TOKEN = { token: 'stub-access-token', secret: 'stub-access-secret' };
+const VERIFIER = 'stub-verifier';
+const USERNAME = 'stub-user';
+
+// ----------------------------------------------------------------------------
+// Known-answer checks
+// ----------------------------------------------------------------------------
+
+const bytes = (length, value) => new Uint8Array(length).fill(value);
+const range = (from, to) => Uint8Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+function checkVectors() {
+  const { sha1Hex, hmacSha1, bytesToHex, utf8Encode } = require(path.join(UTILS, 'sha1.ts'));
+  const { buildOAuthHeader, buildSignatureBaseString } = require(path.join(UTILS, 'oauth1.ts'));
+
+  // FIPS 180-2 appendix A
+  [
+    ['', 'da39a3ee5e6b4b0d3255bfef95601890afd80709'],
+    ['abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    ],
+  ].forEach(([message, digest]) => assert.strictEqual(sha1Hex(message), digest));
+  console.log('ok SHA-1 (FIPS 180-2)');
+
+  // RFC 2202 section 3, test cases 1-7
+  [
+    [bytes(20, 0x0b), utf8Encode('Hi There'), 'b617318655057264e28bc0b6fb378c8ef146be00'],
+    [
+      utf8Encode('Jefe'),
+      utf8Encode('what do ya want for nothing?'),
+      'effcdf6ae5eb2fa2d27416d5f184df9c259a7c79',
+    ],
+    [bytes(20, 0xaa), bytes(50, 0xdd), '125d7342b9ac11cd91a39af48aa17b4f63f175d3'],
+    [range(0x01, 0x19), bytes(50, 0xcd), '4c9007f4026250c6bc8414f9bf50c86c2d7235da'],
+    [
+      bytes(20, 0x0c),
+      utf8Encode('Test With Truncation'),
+      '4c1a03424b55e07fe7f27be1d58bb9324a9a5a04',
+    ],
+    [
+      bytes(80, 0xaa),
+      utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'),
+      'aa4ae5e15272d00e95705637ce8a3b55ed402112',
+    ],
+    [
+      bytes(80, 0xaa),
+      utf8Encode('Test Using Larger Than Block-Size Key and Larger Than One Block-Size Data'),
+      'e8e99d0f45237d786d6bbaa7965c7808bbff1a91',
+    ],
+  ].forEach(([key, message, digest]) =>
+    assert.strictEqual(bytesToHex(hmacSha1(key, message)), digest)
+  );
+  console.log('ok HMAC-SHA1 (RFC 2202)');
+
+  // RFC 5849 section 3.4.1.1: query, body and oauth parameters
+  assert.strictEqual(
+    buildSignatureBaseString('POST', 'http://example.com/request?b5=%3D%253D&a3=a&c%40=&a2=r%20b', [
+      ['c2', ''],
+      ['a3', '2 q'],
+      ['oauth_consumer_key', '9djdj82h48djs9d2'],
+      ['oauth_token', 'kkk9d7dh3k39sjv7'],
+      ['oauth_signature_method', 'HMAC-SHA1'],
+      ['oauth_timestamp', '137131201'],
+      ['oauth_nonce', '7d8f3e4a'],
+    ]),
+    'POST&http%3A%2F%2Fexample.com%2Frequest&a2%3Dr%2520b%26a3%3D2%2520q%26a3%3Da%26b5%3D' +
+      '%253D%25253D%26c%2540%3D%26c2%3D%26oauth_consumer_key%3D9djdj82h48djs9d2%26oauth_nonce' +
+      '%3D7d8f3e4a%26oauth_signature_method%3DHMAC-SHA1%26oauth_timestamp%3D137131201%26' +
+      'oauth_token%3Dkkk9d7dh3k39sjv7'
+  );
+  console.log('ok signature base string (RFC 5849 3.4.1.1)');
+
+  // OAuth Core 1.0 appendix A.5 (the photos.example.net request, which
+  // includes oauth_version as buildOAuthHeader does)
+  const photosUrl = 'http://photos.example.net/photos?file=vacation.jpg&size=original';
+  const header = buildOAuthHeader('GET', photosUrl, {
+    consumerKey: 'dpf43f3p2l4k3l03',
+    consumerSecret: 'kd94hf93k423kf44',
+    token: 'nnch734d00sl2jdk',
+    tokenSecret: 'pfkkdhi9sl3r4s00',
+    signatureMethod: 'HMAC-SHA1',
+    nonce: 'kllo9940pd9333jh',
+    timestamp: '1191242096',
+  });
+  assert.strictEqual(parseAuthorization(header).oauth_signature, 'tR3+Ty81lMeYAr/Fid0kMTYa/WM=');
+  console.log('ok HMAC-SHA1 request signature (OAuth Core 1.0 A.5)');
+}
+
+// ----------------------------------------------------------------------------
+// Stub server
+// ----------------------------------------------------------------------------
+
+const percentEncode = value =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+function parseAuthorization(header) {
+  if (!header || !header.startsWith('OAuth ')) {
+    return null;
+  }
+  const params = {};
+  header
+    .slice('OAuth '.length)
+    .split(/,\s*/)
+    .forEach(pair => {
+      const match = pair.match(/^([^=]+)="(.*)"$/);
+      if (match) {
+        params[decodeURIComponent(match[1])] = decodeURIComponent(match[2]);
+      }
+    });
+  return params;
+}
+
+// Signature check independent of oauth1.ts
+function verifySignature(req, url, oauth, tokenSecret) {
+  const key = `${percentEncode(CONSUMER.secret)}&${percentEncode(tokenSecret)}`;
+  if (oauth.oauth_signature_method === 'PLAINTEXT') {
+    return oauth.oauth_signature === key;
+  }
+  if (oauth.oauth_signature_method !== 'HMAC-SHA1') {
+    return false;
+  }
+
+  const params = Object.entries(oauth).filter(([name]) => name !== 'oauth_signature');
+  url.searchParams.forEach((value, name) => params.push([name, value]));
+  const normalized = params
+    .map(([name, value]) => [percentEncode(name), percentEncode(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const base = [
+    req.method,
+    percentEncode(`${url.origin}${url.pathname}`),
+    percentEncode(normalized),
+  ].join('&');
+  const expected = crypto.createHmac('sha1', key).update(base).digest('base64');
+  return oauth.oauth_signature === expected;
+}
+
+function createStubServer() {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const oauth = parseAuthorization(req.headers.authorization);
+    const reply = (status, body, type = 'application/x-www-form-urlencoded') => {
+      res.writeHead(status, { 'Content-Type': type });
+      res.end(body);
+    };
+    const requireSignature = tokenSecret => {
+      if (!oauth || oauth.oauth_consumer_key !== CONSUMER.key) {
+        reply(401, 'Unknown consumer key', 'text/plain');
+        return false;
+      }
+      if (!verifySignature(req, url, oauth, tokenSecret)) {
+        reply(401, 'Invalid signature', 'text/plain');
+        return false;
+      }
+      return true;
+    };
+
+    console.log(`stub ${req.method} ${url.pathname}`);
+
+    if (req.method === 'GET' && url.pathname === '/oauth/request_token') {
+      if (!requireSignature('')) return;
+      if (!oauth.oauth_callback) return reply(400, 'Missing oauth_callback', 'text/plain');
+      REQUEST_TOKEN.callback = oauth.oauth_callback;
+      return reply(
+        200,
+        `oauth_token=${REQUEST_TOKEN.token}&oauth_token_secret=${REQUEST_TOKEN.secret}` +
+          '&oauth_callback_confirmed=true'
+      );
+    }
+
+    // Approves straight away and redirects back to the app
+    if (req.method === 'GET' && url.pathname === '/oauth/authorize') {
+      if (url.searchParams.get('oauth_token') !== REQUEST_TOKEN.token) {
+        return reply(400, 'Unknown request token', 'text/plain');
+      }
+      const callback = new URL(REQUEST_TOKEN.callback);
+      callback.searchParams.set('oauth_token', REQUEST_TOKEN.token);
+      callback.searchParams.set('oauth_verifier', VERIFIER);
+      res.writeHead(302, { Location: callback.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/oauth/access_token') {
+      if (!requireSignature(REQUEST_TOKEN.secret)) return;
+      if (oauth.oauth_token !== REQUEST_TOKEN.token || oauth.oauth_verifier !== VERIFIER) {
+        return reply(401, 'Invalid request token or verifier', 'text/plain');
+      }
+      return reply(
+        200,
+        `oauth_token=${ACCESS_TOKEN.token}&oauth_token_secret=${ACCESS_TOKEN.secret}`
+      );
+    }
+
+    if (req.method === 'GET' && url.pathname === '/oauth/identity') {
+      if (!requireSignature(ACCESS_TOKEN.secret)) return;
+      if (oauth.oauth_token !== ACCESS_TOKEN.token) {
+        return reply(401, 'Invalid access token', 'text/plain');
+      }
+      return reply(
+        200,
+        JSON.stringify({ id: 1, username: USERNAME, resource_url: '', consumer_name: 'stub' }),
+        'application/json'
+      );
+    }
+
+    reply(404, 'Not found', 'text/plain');
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Flow check
+// ----------------------------------------------------------------------------
+
+async function checkFlow(port) {
+  const baseUrl = `http://127.0.0.1:${port}`;
+  process.env.EXPO_PUBLIC_DISCOGS_CONSUMER_KEY = CONSUMER.key;
+  process.env.EXPO_PUBLIC_DISCOGS_CONSUMER_SECRET = CONSUMER.secret;
+  process.env.EXPO_PUBLIC_DISCOGS_API_URL = baseUrl;
+  process.env.EXPO_PUBLIC_DISCOGS_AUTHORIZE_URL = `${baseUrl}/oauth/authorize`;
+  const auth = require(path.join(UTILS, 'discogsAuth.ts'));
+
+  for (const method of ['HMAC-SHA1', 'PLAINTEXT']) {
+    process.env.EXPO_PUBLIC_DISCOGS_OAUTH_SIGNATURE_METHOD = method;
+    const client = new auth.DiscogsOAuthClient(auth.getDiscogsOAuthConfig());
+
+    const requestToken = await client.getRequestToken('vinylrn://oauth/discogs');
+    assert.deepStrictEqual(requestToken, {
+      token: REQUEST_TOKEN.token,
+      tokenSecret: REQUEST_TOKEN.secret,
+    });
+
+    const redirect = await fetch(client.getAuthorizeUrl(requestToken), { redirect: 'manual' });
+    const callback = auth.parseOAuthCallback(redirect.headers.get('location'));
+    assert.strictEqual(callback.token, requestToken.token);
+
+    const accessToken = await client.getAccessToken(requestToken, callback.verifier);
+    assert.deepStrictEqual(accessToken, {
+      token: ACCESS_TOKEN.token,
+      tokenSecret: ACCESS_TOKEN.secret,
+    });
+
+    const identityUrl = `${baseUrl}/oauth/identity`;
+    const identity = await fetch(identityUrl, {
+      headers: {
+        Authorization: client
+          .createCredentials(accessToken)
+          .getAuthorizationHeader('GET', identityUrl),
+      },
+    });
+    assert.strictEqual(identity.status, 200, await identity.clone().text());
+    assert.strictEqual((await identity.json()).username, USERNAME);
+
+    console.log(`ok OAuth flow against the stub (${method})`);
+  }
+}
+
+async function main() {
+  if (process.argv[2] === '--serve') {
+    const port = Number(process.argv[3]) || 8080;
+    createStubServer().listen(port, () => {
+      console.log(`Stub Discogs OAuth server on port ${port}`);
+      console.log(`Consumer key "${CONSUMER.key}", secret "${CONSUMER.secret}"`);
+    });
+    return;
+  }
+
+  checkVectors();
+
+  const server = createStubServer();
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await checkFlow(server.address().port);
+  } finally {
+    server.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
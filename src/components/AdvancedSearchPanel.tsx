@@ -0,0 +1,170 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Input } from './ui';
+import type { DiscogsSearchParams } from '../utils/discogs';
+
+// Everything except the free-text query and result type
+export type DiscogsSearchFilters = Omit<DiscogsSearchParams, 'query' | 'type'>;
+
+interface AdvancedSearchPanelProps {
+  filters: DiscogsSearchFilters;
+  onChange: (filters: DiscogsSearchFilters) => void;
+}
+
+const FORMAT_CHIPS = ['Vinyl', 'LP', '12"', '10"', '7"', 'CD', 'Cassette'];
+const COUNTRY_CHIPS = ['US', 'UK', 'Europe', 'Germany', 'France', 'Japan', 'Netherlands'];
+const SORT_CHIPS: Array<{
+  label: string;
+  sort?: DiscogsSearchFilters['sort'];
+  sortOrder?: DiscogsSearchFilters['sortOrder'];
+}> = [
+  { label: 'Relevance' },
+  { label: 'Year ↑', sort: 'year', sortOrder: 'asc' },
+  { label: 'Year ↓', sort: 'year', sortOrder: 'desc' },
+  { label: 'Title A–Z', sort: 'title', sortOrder: 'asc' },
+  { label: 'Format', sort: 'format', sortOrder: 'asc' },
+];
+
+const TEXT_FIELDS: Array<{ key: keyof DiscogsSearchFilters; label: string; placeholder: string }> = [
+  { key: 'artist', label: 'Artist', placeholder: 'e.g. Miles Davis' },
+  { key: 'releaseTitle', label: 'Release Title', placeholder: 'e.g. Kind of Blue' },
+  { key: 'label', label: 'Label', placeholder: 'e.g. Columbia' },
+  { key: 'catno', label: 'Catalog Number', placeholder: 'e.g. CL 1355' },
+  { key: 'track', label: 'Track', placeholder: 'e.g. So What' },
+  { key: 'credit', label: 'Credit', placeholder: 'e.g. Rudy Van Gelder' },
+  { key: 'genre', label: 'Genre', placeholder: 'e.g. Jazz' },
+  { key: 'style', label: 'Style', placeholder: 'e.g. Modal' },
+];
+
+/**
+ * Number of filters that will be sent with a search (sort excluded)
+ */
+export function countActiveFilters(filters: DiscogsSearchFilters): number {
+  return (Object.keys(filters) as Array<keyof DiscogsSearchFilters>).filter(
+    key => key !== 'sort' && key !== 'sortOrder' && filters[key]?.trim()
+  ).length;
+}
+
+export const AdvancedSearchPanel: React.FC<AdvancedSearchPanelProps> = ({
+  filters,
+  onChange,
+}) => {
+  const setFilter = (key: keyof DiscogsSearchFilters, value: string | undefined) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  // Tapping the selected chip clears the filter
+  const toggleChip = (key: 'format' | 'country', value: string) => {
+    setFilter(key, filters[key] === value ? undefined : value);
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={styles.groupLabel}>Format</Text>
+      <View style={styles.chipRow}>
+        {FORMAT_CHIPS.map(format =>
+          renderChip(format, filters.format === format, () => toggleChip('format', format))
+        )}
+      </View>
+
+      <Text style={styles.groupLabel}>Country</Text>
+      <View style={styles.chipRow}>
+        {COUNTRY_CHIPS.map(country =>
+          renderChip(country, filters.country === country, () => toggleChip('country', country))
+        )}
+      </View>
+
+      <View style={styles.row}>
+        <Input
+          label="Year"
+          value={filters.year || ''}
+          onChangeText={text => setFilter('year', text)}
+          keyboardType="number-pad"
+          maxLength={4}
+          placeholder="e.g. 1959"
+          containerStyle={styles.flex}
+        />
+        <Input
+          label="Other Country"
+          value={filters.country && !COUNTRY_CHIPS.includes(filters.country) ? filters.country : ''}
+          onChangeText={text => setFilter('country', text)}
+          placeholder="e.g. Canada"
+          containerStyle={styles.flex}
+        />
+      </View>
+
+      {TEXT_FIELDS.map(field => (
+        <Input
+          key={field.key}
+          label={field.label}
+          value={filters[field.key] || ''}
+          onChangeText={text => setFilter(field.key, text)}
+          placeholder={field.placeholder}
+          autoCorrect={false}
+        />
+      ))}
+
+      <Text style={styles.groupLabel}>Sort By</Text>
+      <View style={styles.chipRow}>
+        {SORT_CHIPS.map(option =>
+          renderChip(
+            option.label,
+            filters.sort === option.sort && (!option.sort || filters.sortOrder === option.sortOrder),
+            () => onChange({ ...filters, sort: option.sort, sortOrder: option.sortOrder })
+          )
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  groupLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert, TouchableOpacity } from 'react-native';
+import { Card, Button } from './ui';
+import { listAutoBackups, runScheduledBackup, shareBackup } from '../utils/backup';
+import { appSettings, AutoBackupFrequency } from '../utils/settings';
+
+const FREQUENCIES: Array<{ value: AutoBackupFrequency; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+interface BackupCardProps {
+  // Open the restore screen
+  onRestore: () => void;
+}
+
+/**
+ * Create a backup file, start a restore and choose automatic backups
+ */
+export const BackupCard: React.FC<BackupCardProps> = ({ onRestore }) => {
+  const [isSharing, setIsSharing] = useState(false);
+  const [frequency, setFrequency] = useState<AutoBackupFrequency | null>(null);
+  const [lastAutoBackup, setLastAutoBackup] = useState<number | null>(null);
+
+  const loadLastAutoBackup = () => {
+    try {
+      setLastAutoBackup(listAutoBackups()[0]?.modifiedAt ?? null);
+    } catch (error) {
+      console.error('Error listing backups:', error);
+    }
+  };
+
+  useEffect(() => {
+    appSettings.get().then(settings => setFrequency(settings.autoBackup));
+    loadLastAutoBackup();
+  }, []);
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      await shareBackup();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create backup');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleFrequency = async (value: AutoBackupFrequency) => {
+    try {
+      setFrequency((await appSettings.update({ autoBackup: value })).autoBackup);
+      // Write the first backup now rather than on the next launch
+      await runScheduledBackup();
+      loadLastAutoBackup();
+    } catch (error) {
+      console.error('Error saving backup setting:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save setting');
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Text style={styles.sectionTitle}>Backup</Text>
+      <Text style={styles.infoText}>
+        A backup file holds every record, your photos and your settings. Save it somewhere
+        off this phone to keep your collection if the app is removed.
+      </Text>
+      <View style={styles.buttonRow}>
+        <View style={styles.buttonContainer}>
+          <Button
+            onPress={handleShare}
+            title="Create Backup"
+            variant="outline"
+            disabled={isSharing}
+            loading={isSharing}
+          />
+        </View>
+        <View style={styles.buttonContainer}>
+          <Button onPress={onRestore} title="Restore…" variant="outline" />
+        </View>
+      </View>
+
+      <Text style={styles.fieldLabel}>Automatic Backups</Text>
+      <View style={styles.chipRow}>
+        {FREQUENCIES.map(option => {
+          const isSelected = option.value === frequency;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, isSelected && styles.chipActive]}
+              onPress={() => handleFrequency(option.value)}
+              disabled={frequency === null}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.hintText}>
+        {lastAutoBackup
+          ? `Last automatic backup ${new Date(lastAutoBackup).toLocaleString()}. ` +
+            'The newest 5 are kept on this phone.'
+          : 'Automatic backups are kept on this phone, so also save one elsewhere.'}
+      </Text>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+});
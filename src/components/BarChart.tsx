@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+export interface BarChartItem {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  // Bars shown before "Show all"
+  limit?: number;
+  color?: string;
+}
+
+/**
+ * Horizontal bar chart drawn with views, one labelled bar per item
+ */
+export const BarChart: React.FC<BarChartProps> = ({ items, limit = 8, color = '#4a9eff' }) => {
+  const [showAll, setShowAll] = useState(false);
+  const max = Math.max(1, ...items.map(item => item.value));
+  const visible = showAll ? items : items.slice(0, limit);
+
+  return (
+    <View>
+      {visible.map(item => (
+        <View key={item.label} style={styles.row}>
+          <Text style={styles.label} numberOfLines={1}>
+            {item.label}
+          </Text>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.bar,
+                { width: `${(item.value / max) * 100}%`, backgroundColor: color },
+              ]}
+            />
+          </View>
+          <Text style={styles.value}>{item.value}</Text>
+        </View>
+      ))}
+
+      {items.length > limit && (
+        <TouchableOpacity onPress={() => setShowAll(!showAll)}>
+          <Text style={styles.toggleText}>
+            {showAll ? 'Show less' : `Show all ${items.length}`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  label: {
+    width: 110,
+    fontSize: 13,
+    color: '#e8e8e8',
+  },
+  track: {
+    flex: 1,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#2a2a2a',
+    overflow: 'hidden',
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 6,
+  },
+  value: {
+    minWidth: 32,
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'right',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#4a9eff',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Card, Button } from './ui';
+import { api } from '../utils/api';
+import { exportCollectionCsv } from '../utils/collectionCsv';
+
+interface CollectionCsvCardProps {
+  // Open the CSV import screen
+  onImport: () => void;
+}
+
+/**
+ * Export the collection as CSV or start a CSV import
+ */
+export const CollectionCsvCard: React.FC<CollectionCsvCardProps> = ({ onImport }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const records = await api.getRecords();
+      if (records.length === 0) {
+        Alert.alert('Nothing to Export', 'Your collection is empty');
+        return;
+      }
+      await exportCollectionCsv(records);
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export collection');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Text style={styles.sectionTitle}>Spreadsheet (CSV)</Text>
+      <Text style={styles.infoText}>
+        Export uses the same columns as Discogs' collection export. Import reads any CSV with
+        a header row and lets you check every row before saving.
+      </Text>
+      <View style={styles.buttonRow}>
+        <View style={styles.buttonContainer}>
+          <Button
+            onPress={handleExport}
+            title="Export CSV"
+            variant="outline"
+            disabled={isExporting}
+            loading={isExporting}
+          />
+        </View>
+        <View style={styles.buttonContainer}>
+          <Button onPress={onImport} title="Import CSV" variant="outline" />
+        </View>
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  buttonContainer: {
+    flex: 1,
+  },
+});
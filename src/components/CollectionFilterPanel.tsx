@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import {
+  COLLECTION_FACETS,
+  COLLECTION_GROUPINGS,
+  COLLECTION_SORTS,
+  CollectionFilters,
+  CollectionGrouping,
+  CollectionQueryResult,
+  CollectionSort,
+  toggleFilter,
+} from '../utils/collectionQuery';
+
+interface CollectionFilterPanelProps {
+  filters: CollectionFilters;
+  sort: CollectionSort;
+  grouping: CollectionGrouping;
+  facets: CollectionQueryResult['facets'];
+  onChangeFilters: (filters: CollectionFilters) => void;
+  onChangeSort: (sort: CollectionSort) => void;
+  onChangeGrouping: (grouping: CollectionGrouping) => void;
+}
+
+/**
+ * Sort and grouping options and facet chips with result counts for the
+ * collection
+ */
+export const CollectionFilterPanel: React.FC<CollectionFilterPanelProps> = ({
+  filters,
+  sort,
+  grouping,
+  facets,
+  onChangeFilters,
+  onChangeSort,
+  onChangeGrouping,
+}) => {
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, key = label) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={styles.groupLabel}>Sort By</Text>
+      <View style={styles.chipRow}>
+        {COLLECTION_SORTS.map(option =>
+          renderChip(option.label, sort === option.key, () => onChangeSort(option.key))
+        )}
+      </View>
+
+      <Text style={styles.groupLabel}>Sections</Text>
+      <View style={styles.chipRow}>
+        {COLLECTION_GROUPINGS.map(option =>
+          renderChip(option.label, grouping === option.key, () => onChangeGrouping(option.key))
+        )}
+      </View>
+
+      {COLLECTION_FACETS.filter(({ key }) => facets[key].length > 0).map(facet => (
+        <View key={facet.key}>
+          <Text style={styles.groupLabel}>{facet.label}</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chipScroll}
+          >
+            {facets[facet.key].map(({ value, count }) =>
+              renderChip(
+                `${value} (${count})`,
+                filters[facet.key].includes(value),
+                () => onChangeFilters(toggleFilter(filters, facet.key, value)),
+                value
+              )
+            )}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  groupLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chipScroll: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
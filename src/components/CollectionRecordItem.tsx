@@ -0,0 +1,172 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from './ui';
+import { AlbumCover } from './AlbumCover';
+import { VinylRecord } from '../types';
+import { latestValuation, estimatedValue, formatPrice } from '../utils/valuation';
+
+interface CollectionRecordItemProps {
+  record: VinylRecord;
+  onSelect: (record: VinylRecord) => void;
+  onDelete: (record: VinylRecord) => void;
+}
+
+interface CollectionRecordTileProps {
+  record: VinylRecord;
+  size: number;
+  onSelect: (record: VinylRecord) => void;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+// Reloading the collection parses every record again, so rows compare the
+// record's identity and last change rather than the object
+const isSameRecord = (a: VinylRecord, b: VinylRecord) =>
+  a.id === b.id && a.updatedAt === b.updatedAt && a.imageUrl === b.imageUrl;
+
+const CollectionRecordRowBase: React.FC<CollectionRecordItemProps> = ({
+  record,
+  onSelect,
+  onDelete,
+}) => {
+  const snapshot = latestValuation(record);
+  const value = estimatedValue(snapshot);
+
+  return (
+    <TouchableOpacity onPress={() => onSelect(record)} activeOpacity={0.7}>
+      <Card style={styles.recordCard}>
+        <View style={styles.recordContent}>
+          <AlbumCover
+            artistName={record.artistName}
+            albumName={record.albumName}
+            uploadedImageUrl={record.imageUrl}
+            size={100}
+          />
+
+          <View style={styles.recordInfo}>
+            {record.artistName && (
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Artist</Text>
+                <Text style={styles.infoValue}>{record.artistName}</Text>
+              </View>
+            )}
+
+            {record.albumName && (
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Album</Text>
+                <Text style={styles.infoValue}>{record.albumName}</Text>
+              </View>
+            )}
+
+            {record.year && (
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Year</Text>
+                <Text style={styles.infoValue}>{record.year}</Text>
+              </View>
+            )}
+
+            {snapshot && value !== null && (
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>
+                  {snapshot.suggestedPrice !== null ? 'Value' : 'Lowest Listing'}
+                </Text>
+                <Text style={styles.infoValue}>{formatPrice(value, snapshot.currency)}</Text>
+              </View>
+            )}
+
+            <Text style={styles.dateText}>Added {formatDate(record.createdAt)}</Text>
+
+            <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(record)}>
+              <Text style={styles.deleteButtonText}>🗑️ Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Card>
+    </TouchableOpacity>
+  );
+};
+
+const CollectionRecordTileBase: React.FC<CollectionRecordTileProps> = ({
+  record,
+  size,
+  onSelect,
+}) => (
+  <TouchableOpacity
+    onPress={() => onSelect(record)}
+    activeOpacity={0.7}
+    accessibilityLabel={[record.artistName, record.albumName].filter(Boolean).join(' – ')}
+  >
+    <AlbumCover
+      artistName={record.artistName}
+      albumName={record.albumName}
+      uploadedImageUrl={record.imageUrl}
+      size={size}
+    />
+  </TouchableOpacity>
+);
+
+/**
+ * Collection list row with the record's details and a delete button
+ */
+export const CollectionRecordRow = React.memo(
+  CollectionRecordRowBase,
+  (prev, next) =>
+    isSameRecord(prev.record, next.record) &&
+    prev.onSelect === next.onSelect &&
+    prev.onDelete === next.onDelete
+);
+
+/**
+ * Cover-only tile for the collection grid
+ */
+export const CollectionRecordTile = React.memo(
+  CollectionRecordTileBase,
+  (prev, next) =>
+    isSameRecord(prev.record, next.record) &&
+    prev.size === next.size &&
+    prev.onSelect === next.onSelect
+);
+
+const styles = StyleSheet.create({
+  recordCard: {
+    marginBottom: 16,
+  },
+  recordContent: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  infoItem: {
+    marginBottom: 8,
+  },
+  infoLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  infoValue: {
+    fontSize: 14,
+    color: '#e8e8e8',
+  },
+  dateText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  deleteButton: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+});
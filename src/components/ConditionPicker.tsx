@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+interface ConditionPickerProps<T extends string> {
+  label: string;
+  options: Array<{ value: T; short: string }>;
+  value: T | '';
+  // Tapping the selected grade again clears it
+  onChange: (value: T | '') => void;
+}
+
+/**
+ * Single-choice grade selector (M, NM, VG+, ...) showing the full grade name
+ */
+export function ConditionPicker<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: ConditionPickerProps<T>) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chipRow}>
+        {options.map(option => {
+          const isSelected = option.value === value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, isSelected && styles.chipActive]}
+              onPress={() => onChange(isSelected ? '' : option.value)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                {option.short}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.selectedText}>{value || 'Not graded'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  selectedText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+});
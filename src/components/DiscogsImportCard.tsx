@@ -0,0 +1,173 @@
+import React from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Card, Button } from './ui';
+import { useDiscogsImport } from '../hooks/useDiscogsImport';
+import { discogsImporter, ImportCheckpoint, ImportMode } from '../utils/discogsImport';
+
+interface DiscogsImportCardProps {
+  username: string;
+  // Called whenever an import run ends so the collection can be reloaded
+  onCollectionChanged: () => void;
+}
+
+const formatCounts = (checkpoint: ImportCheckpoint) =>
+  `${checkpoint.added} added, ${checkpoint.merged} merged, ${checkpoint.skipped} skipped`;
+
+/**
+ * Import the signed-in user's Discogs collection, with progress and resume
+ */
+export const DiscogsImportCard: React.FC<DiscogsImportCardProps> = ({
+  username,
+  onCollectionChanged,
+}) => {
+  const { status, checkpoint, error } = useDiscogsImport();
+  const isRunning = status === 'running' || status === 'stopping';
+
+  const runImport = async (run: () => Promise<ImportCheckpoint>) => {
+    try {
+      const result = await run();
+      if (result.page >= result.pages) {
+        Alert.alert('Import Complete', `${result.processed} releases: ${formatCounts(result)}`);
+      }
+    } catch (error) {
+      Alert.alert(
+        'Import Paused',
+        `${error instanceof Error ? error.message : 'Import failed'}\n\nYou can resume where it stopped.`
+      );
+    } finally {
+      onCollectionChanged();
+    }
+  };
+
+  const handleStart = () => {
+    const start = (mode: ImportMode) => runImport(() => discogsImporter.start(username, mode));
+    Alert.alert(
+      'Import Collection',
+      'What should happen to releases that are already in your collection?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Skip Them', onPress: () => start('skip') },
+        { text: 'Merge Details', onPress: () => start('merge') },
+      ]
+    );
+  };
+
+  const handleDiscard = () => {
+    Alert.alert('Discard Import', 'Records imported so far stay in your collection.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await discogsImporter.discard();
+          } catch (error) {
+            console.error('Error discarding import:', error);
+            Alert.alert('Error', 'Failed to discard import');
+          }
+        },
+      },
+    ]);
+  };
+
+  const progress = checkpoint && checkpoint.total > 0 ? checkpoint.processed / checkpoint.total : 0;
+
+  return (
+    <Card style={styles.card}>
+      <Text style={styles.sectionTitle}>Import Collection</Text>
+
+      {checkpoint && status !== 'idle' && (
+        <View style={styles.progressContainer}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {checkpoint.total > 0
+              ? `${checkpoint.processed} of ${checkpoint.total} releases · ${formatCounts(checkpoint)}`
+              : 'Fetching first page…'}
+          </Text>
+        </View>
+      )}
+
+      {isRunning ? (
+        <Button
+          onPress={() => discogsImporter.cancel()}
+          title={status === 'stopping' ? 'Stopping…' : 'Stop Import'}
+          variant="outline"
+          disabled={status === 'stopping'}
+        />
+      ) : status === 'interrupted' && checkpoint ? (
+        <View>
+          <Text style={styles.infoText}>
+            Import of {checkpoint.username}'s collection stopped after page {checkpoint.page}
+            {checkpoint.pages > 0 ? ` of ${checkpoint.pages}` : ''}.
+          </Text>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonRow}>
+            <View style={styles.buttonContainer}>
+              <Button onPress={() => runImport(() => discogsImporter.resume())} title="Resume" />
+            </View>
+            <View style={styles.buttonContainer}>
+              <Button onPress={handleDiscard} title="Discard" variant="outline" />
+            </View>
+          </View>
+        </View>
+      ) : (
+        <View>
+          <Text style={styles.infoText}>
+            Copy every release in your Discogs collection into this app. Large collections
+            take a while; you can stop and resume at any time.
+          </Text>
+          <Button onPress={handleStart} title="Import from Discogs" variant="outline" />
+        </View>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  progressContainer: {
+    marginBottom: 12,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4a9eff',
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  buttonContainer: {
+    flex: 1,
+  },
+});
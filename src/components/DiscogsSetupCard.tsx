@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Card, Button } from './ui';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
+
+interface DiscogsSetupCardProps {
+  onOpenSettings: () => void;
+}
+
+/**
+ * Shown in place of Discogs features until the user has signed in
+ */
+export const DiscogsSetupCard: React.FC<DiscogsSetupCardProps> = ({ onOpenSettings }) => {
+  const { status } = useDiscogsAccount();
+
+  if (status === 'loading') {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4a9eff" style={styles.loading} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Card style={styles.errorCard}>
+        <Text style={styles.errorIcon}>⚠️</Text>
+        <Text style={styles.errorTitle}>Configuration Required</Text>
+        <Text style={styles.errorText}>
+          Connect your Discogs account in Settings to use this feature.
+        </Text>
+        <Button onPress={onOpenSettings} title="Open Settings" style={styles.button} />
+      </Card>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  loading: {
+    marginTop: 64,
+  },
+  errorCard: {
+    margin: 16,
+    marginTop: 32,
+    padding: 32,
+    alignItems: 'center',
+  },
+  errorIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useDiscogsRequestState } from '../hooks/useDiscogsRequestState';
+
+/**
+ * Shows a "waiting for Discogs…" banner while requests are held back by the
+ * rate limit or waiting to be retried. Renders nothing otherwise.
+ */
+export const DiscogsStatusBanner: React.FC = () => {
+  const { throttledUntil, throttleReason, queued, inFlight } = useDiscogsRequestState();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second for the countdown while throttled
+  useEffect(() => {
+    if (!throttledUntil) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [throttledUntil]);
+
+  if (!throttledUntil) {
+    return null;
+  }
+
+  const seconds = Math.max(0, Math.ceil((throttledUntil - now) / 1000));
+  const pending = queued + inFlight;
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.title}>
+        {throttleReason === 'retry' ? 'Discogs is busy, retrying…' : 'Waiting for Discogs…'}
+      </Text>
+      <Text style={styles.detail}>
+        {throttleReason === 'retry'
+          ? `Next attempt in ${seconds}s`
+          : `Rate limit reached, resuming in ${seconds}s`}
+        {pending > 0 ? ` · ${pending} ${pending === 1 ? 'request' : 'requests'} queued` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#5c4a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#d4c7a1',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,164 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Input, Button } from './ui';
+import type { MatrixRunout, MatrixMethod } from '../types';
+import { nextMatrixSide } from '../utils/matrix';
+
+interface MatrixRunoutEditorProps {
+  entries: MatrixRunout[];
+  onChange: (entries: MatrixRunout[]) => void;
+}
+
+const METHODS: Array<{ value: MatrixMethod; label: string }> = [
+  { value: 'etched', label: 'Etched' },
+  { value: 'stamped', label: 'Stamped' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+export const MatrixRunoutEditor: React.FC<MatrixRunoutEditorProps> = ({
+  entries,
+  onChange,
+}) => {
+  const updateEntry = (index: number, updates: Partial<MatrixRunout>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  const addEntry = () => {
+    onChange([...entries, { side: nextMatrixSide(entries), text: '', method: 'unknown' }]);
+  };
+
+  return (
+    <View>
+      <Text style={styles.title}>Matrix / Runout</Text>
+
+      {entries.length === 0 && (
+        <Text style={styles.emptyText}>No matrix entries yet</Text>
+      )}
+
+      {entries.map((entry, index) => (
+        <View key={index} style={styles.entry}>
+          <View style={styles.row}>
+            <Input
+              label="Side"
+              value={entry.side}
+              onChangeText={side => updateEntry(index, { side: side.toUpperCase() })}
+              autoCapitalize="characters"
+              maxLength={2}
+              containerStyle={styles.sideInput}
+            />
+            <Input
+              label="Matrix Text"
+              value={entry.text}
+              onChangeText={text => updateEntry(index, { text })}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              placeholder="e.g. YEX 749-1"
+              containerStyle={styles.textInput}
+            />
+          </View>
+
+          <View style={styles.methodRow}>
+            {METHODS.map(method => (
+              <TouchableOpacity
+                key={method.value}
+                style={[styles.methodChip, entry.method === method.value && styles.methodChipActive]}
+                onPress={() => updateEntry(index, { method: method.value })}
+              >
+                <Text
+                  style={[
+                    styles.methodText,
+                    entry.method === method.value && styles.methodTextActive,
+                  ]}
+                >
+                  {method.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Description"
+            value={entry.description || ''}
+            onChangeText={description =>
+              updateEntry(index, { description: description || undefined })
+            }
+            placeholder="e.g. Mastering engineer signature"
+          />
+
+          <TouchableOpacity onPress={() => removeEntry(index)} style={styles.removeButton}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Button onPress={addEntry} title="+ Add Matrix Entry" variant="outline" size="small" />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  entry: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  sideInput: {
+    width: 72,
+  },
+  textInput: {
+    flex: 1,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  methodChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  methodChipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  methodText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  methodTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  removeButton: {
+    alignSelf: 'flex-start',
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { MonthCount } from '../utils/collectionStats';
+
+interface MonthlyBarChartProps {
+  months: MonthCount[];
+  height?: number;
+}
+
+// Label every few months so the labels don't overlap
+const LABEL_EVERY = 3;
+
+/**
+ * Vertical bar per month, drawn with views
+ */
+export const MonthlyBarChart: React.FC<MonthlyBarChartProps> = ({ months, height = 120 }) => {
+  const max = Math.max(1, ...months.map(month => month.count));
+  const offset = (months.length - 1) % LABEL_EVERY;
+
+  return (
+    <View>
+      <View style={[styles.bars, { height }]}>
+        {months.map(({ month, count }) => (
+          <View key={month.getTime()} style={styles.column}>
+            <View
+              style={[
+                styles.bar,
+                { height: `${(count / max) * 100}%` },
+                count > 0 && styles.barMin,
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {months.map(({ month }, index) =>
+          index % LABEL_EVERY === offset ? (
+            <Text
+              key={month.getTime()}
+              style={[styles.label, { left: `${(index / months.length) * 100}%` }]}
+            >
+              {month.toLocaleDateString('en-US', { month: 'short' })}
+              {month.getMonth() < LABEL_EVERY ? `\n${month.getFullYear()}` : ''}
+            </Text>
+          ) : null
+        )}
+      </View>
+      <Text style={styles.maxText}>Most in one month: {max}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  column: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    backgroundColor: '#4a9eff',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  barMin: {
+    minHeight: 2,
+  },
+  labels: {
+    height: 28,
+    marginTop: 4,
+  },
+  label: {
+    position: 'absolute',
+    top: 0,
+    width: 40,
+    fontSize: 10,
+    color: '#999',
+  },
+  maxText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from './ui';
+import { AlbumCover } from './AlbumCover';
+import type { DiscogsSearchResult } from '../utils/discogs';
+
+interface SearchResultCardProps {
+  result: DiscogsSearchResult;
+  onPress: (result: DiscogsSearchResult) => void;
+  actionLabel?: string;
+  // Shows a "Want" action beside the main one when provided
+  onWant?: (result: DiscogsSearchResult) => void;
+  isWanted?: boolean;
+}
+
+export const SearchResultCard: React.FC<SearchResultCardProps> = ({
+  result,
+  onPress,
+  actionLabel = '+ Add',
+  onWant,
+  isWanted = false,
+}) => {
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(result)}
+      activeOpacity={0.7}
+    >
+      <Card style={styles.resultCard}>
+        <View style={styles.resultContent}>
+          <AlbumCover
+            artistName={result.title.split(' - ')[0] || ''}
+            albumName={result.title}
+            uploadedImageUrl={result.thumb}
+            size={80}
+          />
+
+          <View style={styles.resultInfo}>
+            <Text style={styles.resultTitle} numberOfLines={2}>
+              {result.title}
+            </Text>
+
+            {result.year && (
+              <Text style={styles.resultDetail}>Year: {result.year}</Text>
+            )}
+
+            {result.country && (
+              <Text style={styles.resultDetail}>Country: {result.country}</Text>
+            )}
+
+            {result.format && result.format.length > 0 && (
+              <Text style={styles.resultDetail}>
+                Format: {result.format.join(', ')}
+              </Text>
+            )}
+
+            {result.label && result.label.length > 0 && (
+              <Text style={styles.resultDetail} numberOfLines={1}>
+                Label: {result.label.join(', ')}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.actionRow}>
+          <View style={styles.addButton}>
+            <Text style={styles.addButtonText}>{actionLabel}</Text>
+          </View>
+
+          {onWant && (
+            <TouchableOpacity
+              style={[styles.wantButton, isWanted && styles.wantButtonActive]}
+              onPress={() => onWant(result)}
+              disabled={isWanted}
+            >
+              <Text style={styles.wantButtonText}>{isWanted ? '✓ Wanted' : '♡ Want'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </Card>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  resultCard: {
+    marginBottom: 12,
+  },
+  resultContent: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 6,
+  },
+  resultDetail: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addButton: {
+    backgroundColor: '#4a9eff',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    alignSelf: 'flex-start',
+  },
+  wantButton: {
+    borderWidth: 1,
+    borderColor: '#4a9eff',
+    paddingVertical: 7,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+  },
+  wantButtonActive: {
+    borderColor: '#333',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  wantButtonText: {
+    color: '#e8e8e8',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,90 @@
+import React, { useRef } from 'react';
+import { View, Text, StyleSheet, GestureResponderEvent } from 'react-native';
+
+interface SectionIndexScrubberProps {
+  // Every index entry, in order (e.g. A–Z and #)
+  titles: string[];
+  // Entries that have a section; the others are dimmed
+  available: Set<string>;
+  // Called with the entry under the finger as it moves
+  onSelect: (title: string) => void;
+}
+
+/**
+ * Vertical index along the edge of a list: tap or drag to jump to a section
+ */
+export const SectionIndexScrubber: React.FC<SectionIndexScrubberProps> = ({
+  titles,
+  available,
+  onSelect,
+}) => {
+  const containerRef = useRef<View>(null);
+  // Position on screen, measured when the touch starts
+  const frameRef = useRef({ top: 0, height: 0 });
+  const lastTitleRef = useRef<string | null>(null);
+
+  const selectAt = (pageY: number) => {
+    const { top, height } = frameRef.current;
+    if (height <= 0) return;
+
+    const index = Math.floor(((pageY - top) / height) * titles.length);
+    const title = titles[Math.min(titles.length - 1, Math.max(0, index))];
+    if (title !== lastTitleRef.current) {
+      lastTitleRef.current = title;
+      onSelect(title);
+    }
+  };
+
+  const handleGrant = (event: GestureResponderEvent) => {
+    const { pageY } = event.nativeEvent;
+    lastTitleRef.current = null;
+    containerRef.current?.measureInWindow((_x, y, _width, height) => {
+      frameRef.current = { top: y, height };
+      selectAt(pageY);
+    });
+  };
+
+  return (
+    <View
+      ref={containerRef}
+      style={styles.container}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderTerminationRequest={() => false}
+      onResponderGrant={handleGrant}
+      onResponderMove={event => selectAt(event.nativeEvent.pageY)}
+      accessibilityRole="adjustable"
+      accessibilityLabel="Section index"
+    >
+      {titles.map(title => (
+        <Text
+          key={title}
+          style={[styles.title, !available.has(title) && styles.titleUnavailable]}
+        >
+          {title}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#4a9eff',
+    paddingVertical: 1,
+  },
+  titleUnavailable: {
+    color: '#666',
+  },
+});
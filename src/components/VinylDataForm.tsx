@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Input, ChipInput } from './ui';
+import { MatrixRunoutEditor } from './MatrixRunoutEditor';
+import { ConditionPicker } from './ConditionPicker';
+import { MEDIA_CONDITIONS, SLEEVE_CONDITIONS } from '../utils/conditions';
+import { DISCOGS_GENRES } from '../utils/vinylForm';
+import type { VinylFormValues, VinylFormErrors } from '../utils/vinylForm';
+
+interface VinylDataFormProps {
+  values: VinylFormValues;
+  onChange: (values: VinylFormValues) => void;
+  errors?: VinylFormErrors;
+  // Optional badge per field, shown next to the field label
+  badges?: Partial<Record<keyof VinylFormValues, React.ReactNode>>;
+}
+
+export const VinylDataForm: React.FC<VinylDataFormProps> = ({
+  values,
+  onChange,
+  errors = {},
+  badges = {},
+}) => {
+  const setField = <K extends keyof VinylFormValues>(key: K, value: VinylFormValues[K]) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  return (
+    <View>
+      <Input
+        label="Artist"
+        value={values.artistName}
+        onChangeText={text => setField('artistName', text)}
+        error={errors.artistName}
+        labelAccessory={badges.artistName}
+        placeholder="e.g. Miles Davis"
+      />
+      <Input
+        label="Album"
+        value={values.albumName}
+        onChangeText={text => setField('albumName', text)}
+        error={errors.albumName}
+        labelAccessory={badges.albumName}
+        placeholder="e.g. Kind of Blue"
+      />
+
+      <View style={styles.row}>
+        <Input
+          label="Catalog Number"
+          value={values.serialNumber}
+          onChangeText={text => setField('serialNumber', text)}
+          error={errors.serialNumber}
+          labelAccessory={badges.serialNumber}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          containerStyle={styles.flex}
+        />
+        <Input
+          label="Year"
+          value={values.year}
+          onChangeText={text => setField('year', text)}
+          error={errors.year}
+          labelAccessory={badges.year}
+          keyboardType="number-pad"
+          maxLength={4}
+          containerStyle={styles.yearInput}
+        />
+      </View>
+
+      <Input
+        label="Label"
+        value={values.label}
+        onChangeText={text => setField('label', text)}
+        error={errors.label}
+        labelAccessory={badges.label}
+      />
+
+      <View style={styles.row}>
+        <Input
+          label="Format"
+          value={values.format}
+          onChangeText={text => setField('format', text)}
+          error={errors.format}
+          placeholder="e.g. Vinyl"
+          containerStyle={styles.flex}
+        />
+        <Input
+          label="Country"
+          value={values.country}
+          onChangeText={text => setField('country', text)}
+          error={errors.country}
+          placeholder="e.g. US"
+          containerStyle={styles.flex}
+        />
+      </View>
+
+      <ChipInput
+        label="Genres"
+        values={values.genre}
+        onChange={genre => setField('genre', genre)}
+        placeholder="Add a genre"
+        suggestions={DISCOGS_GENRES}
+      />
+      <ChipInput
+        label="Styles"
+        values={values.style}
+        onChange={style => setField('style', style)}
+        placeholder="Add a style, e.g. Hard Bop"
+      />
+
+      <View style={styles.section}>
+        <MatrixRunoutEditor
+          entries={values.matrixRunout}
+          onChange={matrixRunout => setField('matrixRunout', matrixRunout)}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>Condition</Text>
+      <ConditionPicker
+        label="Media"
+        options={MEDIA_CONDITIONS}
+        value={values.mediaCondition}
+        onChange={mediaCondition => setField('mediaCondition', mediaCondition)}
+      />
+      <ConditionPicker
+        label="Sleeve"
+        options={SLEEVE_CONDITIONS}
+        value={values.sleeveCondition}
+        onChange={sleeveCondition => setField('sleeveCondition', sleeveCondition)}
+      />
+
+      <Text style={styles.sectionTitle}>Discogs</Text>
+      <Input
+        label="Release ID"
+        value={values.discogsId}
+        onChangeText={text => setField('discogsId', text)}
+        error={errors.discogsId}
+        keyboardType="number-pad"
+      />
+      <Input
+        label="Link"
+        value={values.discogsUrl}
+        onChangeText={text => setField('discogsUrl', text)}
+        error={errors.discogsUrl}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        placeholder="https://www.discogs.com/release/..."
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  yearInput: {
+    width: 96,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+
+interface ChipInputProps {
+  label?: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  // Quick-pick values shown below the input when not yet selected
+  suggestions?: string[];
+  containerStyle?: ViewStyle;
+}
+
+export const ChipInput: React.FC<ChipInputProps> = ({
+  label,
+  values,
+  onChange,
+  placeholder,
+  suggestions = [],
+  containerStyle,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const addValue = (value: string) => {
+    const trimmed = value.trim();
+    const exists = values.some(v => v.toLowerCase() === trimmed.toLowerCase());
+    if (trimmed && !exists) {
+      onChange([...values, trimmed]);
+    }
+    setDraft('');
+  };
+
+  const removeValue = (value: string) => {
+    onChange(values.filter(v => v !== value));
+  };
+
+  const remainingSuggestions = suggestions.filter(s => !values.includes(s));
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      {label && <Text style={styles.label}>{label}</Text>}
+
+      {values.length > 0 && (
+        <View style={styles.chipRow}>
+          {values.map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, styles.chipSelected]}
+              onPress={() => removeValue(value)}
+            >
+              <Text style={styles.chipSelectedText}>{value} ✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={draft}
+        onChangeText={setDraft}
+        onSubmitEditing={() => addValue(draft)}
+        onBlur={() => draft && addValue(draft)}
+        placeholder={placeholder}
+        placeholderTextColor="#666"
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+
+      {remainingSuggestions.length > 0 && (
+        <View style={[styles.chipRow, styles.suggestionRow]}>
+          {remainingSuggestions.map(value => (
+            <TouchableOpacity key={value} style={styles.chip} onPress={() => addValue(value)}>
+              <Text style={styles.chipText}>+ {value}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  suggestionRow: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipSelected: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipSelectedText: {
+    fontSize: 13,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#e8e8e8',
+  },
+});
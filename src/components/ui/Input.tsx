@@ -5,18 +5,26 @@ interface InputProps extends TextInputProps {
   label?: string;
   error?: string;
   containerStyle?: ViewStyle;
+  // Rendered next to the label, e.g. a status badge
+  labelAccessory?: React.ReactNode;
 }
 
 export const Input: React.FC<InputProps> = ({
   label,
   error,
   containerStyle,
+  labelAccessory,
   style,
   ...props
 }) => {
   return (
     <View style={[styles.container, containerStyle]}>
-      {label && <Text style={styles.label}>{label}</Text>}
+      {label && (
+        <View style={styles.labelRow}>
+          <Text style={styles.label}>{label}</Text>
+          {labelAccessory}
+        </View>
+      )}
       <TextInput
         style={[styles.input, error && styles.inputError, style]}
         placeholderTextColor="#666"
@@ -31,11 +39,16 @@ const styles = StyleSheet.create({
   container: {
     marginBottom: 16,
   },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
   label: {
     fontSize: 14,
     fontWeight: '600',
     color: '#e8e8e8',
-    marginBottom: 8,
   },
   input: {
     backgroundColor: '#1a1a1a',
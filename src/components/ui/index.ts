@@ -1,3 +1,4 @@
 export { Button } from './Button';
 export { Card } from './Card';
 export { Input } from './Input';
+export { ChipInput } from './ChipInput';
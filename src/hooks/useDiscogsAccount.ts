@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { discogsAccount, DiscogsAccountState } from '../utils/discogsAccount';
+
+/**
+ * Live Discogs sign-in state
+ */
+export function useDiscogsAccount(): DiscogsAccountState {
+  const [state, setState] = useState(discogsAccount.getState());
+
+  useEffect(() => discogsAccount.subscribe(setState), []);
+
+  return state;
+}
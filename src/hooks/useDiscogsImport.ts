@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { discogsImporter, DiscogsImportState } from '../utils/discogsImport';
+
+/**
+ * Live progress of the Discogs collection import
+ */
+export function useDiscogsImport(): DiscogsImportState {
+  const [state, setState] = useState(discogsImporter.getState());
+
+  useEffect(() => discogsImporter.subscribe(setState), []);
+
+  return state;
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { discogsAPI } from '../utils/discogs';
+import type { SchedulerState } from '../utils/requestScheduler';
+
+/**
+ * Live Discogs request queue and rate-limit state
+ */
+export function useDiscogsRequestState(): SchedulerState {
+  const [state, setState] = useState(discogsAPI.getRequestState());
+
+  useEffect(() => discogsAPI.onRequestStateChange(setState), []);
+
+  return state;
+}
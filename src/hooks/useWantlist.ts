@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { wantlist, WantlistState } from '../utils/wantlist';
+
+/**
+ * Live wantlist items and sync status
+ */
+export function useWantlist(): WantlistState {
+  const [state, setState] = useState(wantlist.getState());
+
+  useEffect(() => wantlist.subscribe(setState), []);
+
+  return state;
+}
@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from 'react';
+import { View, ScrollView, StyleSheet, Text, TouchableOpacity, Alert } from 'react-native';
+import { Card, Button } from '../components/ui';
+import {
+  BackupFileInfo,
+  RestoreMode,
+  VerifiedBackup,
+  applyRestore,
+  listAutoBackups,
+  pickBackup,
+  planRestore,
+  readBackup,
+} from '../utils/backup';
+import { VinylRecord } from '../types';
+
+const RESTORE_MODES: Array<{ value: RestoreMode; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description:
+      'Adds new records and updates ones changed since. Records you changed after the ' +
+      'backup was made are kept as they are.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description:
+      'Makes your collection and settings exactly as they were in the backup. Records not ' +
+      'in the backup are deleted.',
+  },
+];
+
+interface BackupRestoreScreenProps {
+  // Current collection, to compare against the backup
+  records: VinylRecord[];
+  // Called after the restore so the collection can be reloaded
+  onRestored: () => void;
+  onDone: () => void;
+}
+
+export const BackupRestoreScreen: React.FC<BackupRestoreScreenProps> = ({
+  records,
+  onRestored,
+  onDone,
+}) => {
+  const [backup, setBackup] = useState<VerifiedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isReading, setIsReading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [autoBackups] = useState<BackupFileInfo[]>(() => {
+    try {
+      return listAutoBackups();
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      return [];
+    }
+  });
+
+  const plan = useMemo(
+    () => (backup ? planRestore(backup, records, mode) : null),
+    [backup, records, mode]
+  );
+
+  const openBackup = async (read: () => Promise<VerifiedBackup | null>) => {
+    setIsReading(true);
+    try {
+      const verified = await read();
+      if (verified) {
+        setBackup(verified);
+      }
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read the backup');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !plan) return;
+
+    setIsRestoring(true);
+    try {
+      const written = await applyRestore(backup, plan);
+      onRestored();
+      Alert.alert(
+        'Restore Complete',
+        `${written} ${written === 1 ? 'record' : 'records'} restored` +
+          (plan.removed > 0 ? `, ${plan.removed} removed` : ''),
+        [{ text: 'OK', onPress: onDone }]
+      );
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!backup || !plan) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Restore from Backup</Text>
+          <Text style={styles.infoText}>
+            Choose a backup file. It's checked and compared with your collection before
+            anything is changed.
+          </Text>
+          <Button
+            onPress={() => openBackup(pickBackup)}
+            title="Choose Backup File"
+            disabled={isReading}
+            loading={isReading}
+          />
+        </Card>
+
+        {autoBackups.length > 0 && (
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Automatic Backups</Text>
+            {autoBackups.map(info => (
+              <TouchableOpacity
+                key={info.name}
+                style={styles.backupRow}
+                onPress={() => openBackup(() => readBackup(info.file))}
+                disabled={isReading}
+              >
+                <Text style={styles.backupText}>
+                  {new Date(info.modifiedAt).toLocaleString()}
+                </Text>
+                <Text style={styles.backupSize}>{Math.ceil(info.size / 1024)} KB</Text>
+              </TouchableOpacity>
+            ))}
+          </Card>
+        )}
+      </ScrollView>
+    );
+  }
+
+  const changeCount =
+    plan.added.length +
+    plan.updated.length +
+    (mode === 'replace' ? plan.conflicting.length + plan.removed : 0);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* Backup */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle} numberOfLines={1}>
+          {backup.name}
+        </Text>
+        <Text style={styles.infoText}>
+          Made {new Date(backup.createdAt).toLocaleString()} · {backup.records.length}{' '}
+          {backup.records.length === 1 ? 'record' : 'records'} ·{' '}
+          {Object.keys(backup.photos).length} photos
+        </Text>
+        {backup.invalidCount > 0 && (
+          <Text style={styles.errorText}>
+            {backup.invalidCount} {backup.invalidCount === 1 ? 'record is' : 'records are'}{' '}
+            unreadable and will be skipped.
+          </Text>
+        )}
+        <Button
+          onPress={() => setBackup(null)}
+          title="Choose Another Backup"
+          variant="outline"
+        />
+      </Card>
+
+      {/* Mode */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Restore Mode</Text>
+        <View style={styles.chipRow}>
+          {RESTORE_MODES.map(option => {
+            const isSelected = option.value === mode;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, isSelected && styles.chipActive]}
+                onPress={() => setMode(option.value)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hintText}>
+          {RESTORE_MODES.find(option => option.value === mode)?.description}
+        </Text>
+      </Card>
+
+      {/* Summary */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>What Will Change</Text>
+        <Text style={styles.summaryText}>
+          {plan.added.length} new · {plan.updated.length} updated ·{' '}
+          {plan.conflicting.length} conflicting
+        </Text>
+        {plan.conflicting.length > 0 && (
+          <Text style={styles.infoText}>
+            {plan.conflicting.length}{' '}
+            {plan.conflicting.length === 1 ? 'record was' : 'records were'} changed after this
+            backup was made.{' '}
+            {mode === 'merge'
+              ? 'Your changes are kept.'
+              : 'Your changes will be overwritten with the backup.'}
+          </Text>
+        )}
+        {plan.unchanged > 0 && (
+          <Text style={styles.infoText}>{plan.unchanged} already up to date.</Text>
+        )}
+        {plan.removed > 0 && (
+          <Text style={styles.errorText}>
+            {plan.removed} {plan.removed === 1 ? 'record is' : 'records are'} not in the backup
+            and will be deleted.
+          </Text>
+        )}
+      </Card>
+
+      <Button
+        onPress={handleRestore}
+        title={mode === 'replace' ? 'Replace Collection' : 'Restore Records'}
+        variant={mode === 'replace' ? 'destructive' : 'primary'}
+        disabled={isRestoring || (changeCount === 0 && mode === 'merge')}
+        loading={isRestoring}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  backupRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backupText: {
+    fontSize: 14,
+    color: '#e8e8e8',
+  },
+  backupSize: {
+    fontSize: 13,
+    color: '#666',
+  },
+});
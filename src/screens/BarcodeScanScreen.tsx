@@ -0,0 +1,374 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { CameraView, useCameraPermissions, scanFromURLAsync } from 'expo-camera';
+import * as ImagePicker from 'expo-image-picker';
+import { Card, Button, Input } from '../components/ui';
+import { SearchResultCard } from '../components/SearchResultCard';
+import { DiscogsStatusBanner } from '../components/DiscogsStatusBanner';
+import { DiscogsSetupCard } from '../components/DiscogsSetupCard';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
+import {
+  discogsAPI,
+  DiscogsSearchResult,
+  DiscogsReleaseDetails,
+} from '../utils/discogs';
+import {
+  normalizeBarcode,
+  searchBarcode,
+  SUPPORTED_SYMBOLOGIES,
+  BarcodeSymbology,
+  NormalizedBarcode,
+} from '../utils/barcode';
+
+interface BarcodeScanScreenProps {
+  onSelectRelease: (release: DiscogsReleaseDetails) => void;
+  onOpenSettings: () => void;
+}
+
+type ScanMode = 'camera' | 'photo' | 'manual';
+
+const MODES: Array<{ value: ScanMode; label: string }> = [
+  { value: 'camera', label: '📷 Camera' },
+  { value: 'photo', label: '🖼️ Photo' },
+  { value: 'manual', label: '⌨️ Manual' },
+];
+
+export const BarcodeScanScreen: React.FC<BarcodeScanScreenProps> = ({
+  onSelectRelease,
+  onOpenSettings,
+}) => {
+  const [mode, setMode] = useState<ScanMode>('camera');
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState('');
+  const [barcode, setBarcode] = useState<NormalizedBarcode | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [results, setResults] = useState<DiscogsSearchResult[]>([]);
+  const [addingId, setAddingId] = useState<number | null>(null);
+  const isConfigured = useDiscogsAccount().status === 'signedIn';
+  // Set as soon as the camera reports a code; state updates land too late to
+  // stop the next frames from starting another search
+  const scanLockRef = useRef(false);
+
+  const releaseScanLock = () => {
+    scanLockRef.current = false;
+  };
+
+  // Every input path (camera, photo, manual) ends up here
+  const handleBarcode = async (raw: string, symbology?: BarcodeSymbology) => {
+    let normalized: NormalizedBarcode;
+    try {
+      normalized = normalizeBarcode(raw, symbology);
+    } catch (error) {
+      Alert.alert(
+        'Invalid Barcode',
+        error instanceof Error ? error.message : 'Invalid barcode',
+        [{ text: 'OK', onPress: releaseScanLock }],
+        { onDismiss: releaseScanLock }
+      );
+      return;
+    }
+
+    setBarcode(normalized);
+    setResults([]);
+    setIsSearching(true);
+
+    try {
+      const response = await searchBarcode(normalized);
+      setResults(response.results || []);
+    } catch (error) {
+      console.error('Barcode search error:', error);
+      Alert.alert(
+        'Search Error',
+        error instanceof Error ? error.message : 'Failed to search Discogs'
+      );
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handlePickPhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Media library permission is required to choose photos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    try {
+      const scanned = await scanFromURLAsync(result.assets[0].uri, SUPPORTED_SYMBOLOGIES);
+      if (scanned.length === 0) {
+        Alert.alert('No Barcode Found', 'Try a sharper photo of the back cover, or enter the code manually.');
+        return;
+      }
+      await handleBarcode(scanned[0].data, scanned[0].type as BarcodeSymbology);
+    } catch (error) {
+      console.error('Error scanning photo:', error);
+      Alert.alert('Scan Error', 'Failed to read a barcode from this photo');
+    }
+  };
+
+  const handleAdd = async (result: DiscogsSearchResult) => {
+    setAddingId(result.id);
+    try {
+      const releaseDetails = await discogsAPI.getRelease(result.id);
+      onSelectRelease(releaseDetails);
+    } catch (error) {
+      console.error('Error fetching release details:', error);
+      Alert.alert('Error', 'Failed to fetch release details');
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  const handleCameraScan = (data: string, symbology: BarcodeSymbology) => {
+    if (scanLockRef.current) return;
+    scanLockRef.current = true;
+    handleBarcode(data, symbology);
+  };
+
+  const resetScan = () => {
+    releaseScanLock();
+    setBarcode(null);
+    setResults([]);
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator color="#4a9eff" />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.permissionContainer}>
+          <Text style={styles.infoText}>Camera access is needed to scan barcodes.</Text>
+          <Button onPress={requestPermission} title="Allow Camera" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraContainer}>
+        <CameraView
+          style={styles.camera}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: SUPPORTED_SYMBOLOGIES }}
+          // Stop scanning once a code was read until the user scans again
+          onBarcodeScanned={
+            barcode || isSearching
+              ? undefined
+              : result => handleCameraScan(result.data, result.type as BarcodeSymbology)
+          }
+        />
+        <View style={styles.scanGuide} pointerEvents="none" />
+      </View>
+    );
+  };
+
+  if (!isConfigured) {
+    return <DiscogsSetupCard onOpenSettings={onOpenSettings} />;
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.title}>Scan Barcode</Text>
+      <DiscogsStatusBanner />
+
+      <View style={styles.modeRow}>
+        {MODES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.modeChip, mode === option.value && styles.modeChipActive]}
+            onPress={() => setMode(option.value)}
+          >
+            <Text style={[styles.modeText, mode === option.value && styles.modeTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Card style={styles.scanCard}>
+        {mode === 'camera' && renderCamera()}
+
+        {mode === 'photo' && (
+          <View>
+            <Text style={styles.infoText}>
+              Pick a photo of the back cover with the barcode clearly visible.
+            </Text>
+            <Button onPress={handlePickPhoto} title="Choose Photo" disabled={isSearching} />
+          </View>
+        )}
+
+        {mode === 'manual' && (
+          <View>
+            <Input
+              label="UPC / EAN"
+              placeholder="e.g. 0 74646 93542 3"
+              value={manualCode}
+              onChangeText={setManualCode}
+              keyboardType="number-pad"
+              onSubmitEditing={() => handleBarcode(manualCode)}
+              returnKeyType="search"
+            />
+            <Button
+              onPress={() => handleBarcode(manualCode)}
+              title="Look Up"
+              disabled={isSearching || !manualCode.trim()}
+              loading={isSearching}
+            />
+          </View>
+        )}
+      </Card>
+
+      {barcode && (
+        <View style={styles.barcodeRow}>
+          <Text style={styles.barcodeText}>
+            {barcode.format} {barcode.code}
+          </Text>
+          <TouchableOpacity onPress={resetScan}>
+            <Text style={styles.linkText}>Scan again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {isSearching && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4a9eff" />
+          <Text style={styles.loadingText}>Searching Discogs...</Text>
+        </View>
+      )}
+
+      {!isSearching && barcode && results.length === 0 && (
+        <Card>
+          <Text style={styles.infoText}>
+            No releases found for this barcode. Try a text search instead.
+          </Text>
+        </Card>
+      )}
+
+      {!isSearching &&
+        results.map(result => (
+          <SearchResultCard
+            key={result.id}
+            result={result}
+            onPress={handleAdd}
+            actionLabel={addingId === result.id ? 'Adding...' : '+ Add'}
+          />
+        ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#e8e8e8',
+    marginBottom: 16,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modeChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  modeChipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  modeText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  modeTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  scanCard: {
+    marginBottom: 16,
+  },
+  cameraContainer: {
+    height: 260,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#1a1a1a',
+  },
+  camera: {
+    flex: 1,
+  },
+  scanGuide: {
+    position: 'absolute',
+    top: '35%',
+    left: '10%',
+    right: '10%',
+    height: '30%',
+    borderWidth: 2,
+    borderColor: '#4a9eff',
+    borderRadius: 8,
+  },
+  permissionContainer: {
+    alignItems: 'center',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  barcodeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  barcodeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    fontFamily: 'monospace',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#4a9eff',
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  loadingText: {
+    color: '#999',
+    marginTop: 12,
+    fontSize: 16,
+  },
+});
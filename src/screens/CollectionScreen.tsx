@@ -1,22 +1,69 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
-  ScrollView,
+  SectionList,
   StyleSheet,
   Text,
   TouchableOpacity,
   RefreshControl,
   Alert,
+  useWindowDimensions,
 } from 'react-native';
-import { Card, Button } from '../components/ui';
-import { AlbumCover } from '../components/AlbumCover';
+import { Card, Button, Input } from '../components/ui';
+import { CollectionFilterPanel } from '../components/CollectionFilterPanel';
+import { CollectionRecordRow, CollectionRecordTile } from '../components/CollectionRecordItem';
+import { SectionIndexScrubber } from '../components/SectionIndexScrubber';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
 import { VinylRecord } from '../types';
+import {
+  valueCollection,
+  valuationHistory,
+  getCollectionValue,
+  formatPrice,
+  formatTotals,
+  CollectionValuationPoint,
+} from '../utils/valuation';
+import {
+  CollectionQuery,
+  DEFAULT_COLLECTION_QUERY,
+  EMPTY_FILTERS,
+  activeFilterCount,
+  collectionQueryStore,
+  groupCollection,
+  queryCollection,
+} from '../utils/collectionQuery';
+
+// Index entries shown by the scrubber when grouped by artist
+const INDEX_TITLES = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ', '#'];
+const GRID_GAP = 8;
+const GRID_MIN_TILE_SIZE = 100;
+const CONTENT_PADDING = 16;
+const SCRUBBER_WIDTH = 24;
+
+// A list row holds one record; a grid row holds a row of covers
+interface CollectionListSection {
+  key: string;
+  title: string;
+  count: number;
+  data: VinylRecord[][];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
 
 interface CollectionScreenProps {
   records: VinylRecord[];
   isLoading: boolean;
   onDelete: (id: string) => void;
   onRefresh: () => void;
+  onSelect: (record: VinylRecord) => void;
+  onShowStats: () => void;
+  onFindDuplicates: () => void;
 }
 
 export const CollectionScreen: React.FC<CollectionScreenProps> = ({
@@ -24,8 +71,140 @@ export const CollectionScreen: React.FC<CollectionScreenProps> = ({
   isLoading,
   onDelete,
   onRefresh,
+  onSelect,
+  onShowStats,
+  onFindDuplicates,
 }) => {
-  const handleDelete = (record: VinylRecord) => {
+  const isSignedIn = useDiscogsAccount().status === 'signedIn';
+  const [valuationProgress, setValuationProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [history, setHistory] = useState<CollectionValuationPoint[]>([]);
+  const cancelValuationRef = useRef(false);
+  const [query, setQuery] = useState<CollectionQuery>(DEFAULT_COLLECTION_QUERY);
+  const [showFilters, setShowFilters] = useState(false);
+  const listRef = useRef<SectionList<VinylRecord[], CollectionListSection>>(null);
+  const { width } = useWindowDimensions();
+
+  useEffect(() => {
+    valuationHistory.get().then(setHistory);
+    // Keep anything typed before the saved filters and sort loaded
+    collectionQueryStore
+      .get()
+      .then(saved => setQuery(current => ({ ...saved, search: current.search })));
+  }, []);
+
+  const result = useMemo(() => queryCollection(records, query), [records, query]);
+  const filterCount = activeFilterCount(query.filters);
+  const isFiltered = filterCount > 0 || query.search.trim() !== '';
+
+  const updateQuery = (updates: Partial<CollectionQuery>) => {
+    const next = { ...query, ...updates };
+    setQuery(next);
+    if (updates.search === undefined) {
+      collectionQueryStore.save(next);
+    }
+  };
+
+  const showScrubber = query.grouping === 'artist' && result.records.length > 0;
+  const contentWidth = width - CONTENT_PADDING * 2 - (showScrubber ? SCRUBBER_WIDTH : 0);
+  const columns = Math.max(
+    2,
+    Math.floor((contentWidth + GRID_GAP) / (GRID_MIN_TILE_SIZE + GRID_GAP))
+  );
+  const tileSize = Math.floor((contentWidth - GRID_GAP * (columns - 1)) / columns);
+
+  const sections = useMemo<CollectionListSection[]>(
+    () =>
+      groupCollection(result.records, query.grouping).map(section => ({
+        key: section.key,
+        title: section.title,
+        count: section.records.length,
+        data: chunk(section.records, query.layout === 'grid' ? columns : 1),
+      })),
+    [result.records, query.grouping, query.layout, columns]
+  );
+  const sectionTitles = useMemo(() => new Set(sections.map(section => section.title)), [sections]);
+  const scrollRetriesRef = useRef(0);
+  const pendingSectionRef = useRef(0);
+
+  const scrollToSection = (sectionIndex: number) => {
+    pendingSectionRef.current = sectionIndex;
+    listRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, animated: false });
+  };
+
+  // Jump to the section for an index entry, or the nearest one after it
+  const handleScrub = (title: string) => {
+    const start = INDEX_TITLES.indexOf(title);
+    const target =
+      INDEX_TITLES.slice(start).find(t => sectionTitles.has(t)) ??
+      INDEX_TITLES.slice(0, start)
+        .reverse()
+        .find(t => sectionTitles.has(t));
+    const sectionIndex = sections.findIndex(section => section.title === target);
+    if (sectionIndex >= 0) {
+      scrollRetriesRef.current = 0;
+      scrollToSection(sectionIndex);
+    }
+  };
+
+  // Sections far from the rendered window have no layout yet: scroll to
+  // an estimate so they render, then try again
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    listRef.current
+      ?.getScrollResponder()
+      ?.scrollTo({ y: info.index * info.averageItemLength, animated: false });
+    if (scrollRetriesRef.current < 3) {
+      scrollRetriesRef.current++;
+      const sectionIndex = pendingSectionRef.current;
+      setTimeout(() => scrollToSection(sectionIndex), 50);
+    }
+  };
+
+  const collectionValue = getCollectionValue(records);
+  // Change since the update before the latest one
+  const previousPoint = history.length > 1 ? history[history.length - 2] : null;
+  const valueChanges = previousPoint
+    ? Object.entries(collectionValue.totals)
+        .filter(([currency]) => previousPoint.totals[currency] !== undefined)
+        .map(([currency, total]) => ({ currency, change: total - previousPoint.totals[currency] }))
+        .filter(({ change }) => Math.abs(change) >= 0.01)
+    : [];
+
+  const handleUpdateValues = async () => {
+    cancelValuationRef.current = false;
+    setValuationProgress({ done: 0, total: 0 });
+    try {
+      const { valued, failed } = await valueCollection(records, {
+        onProgress: (done, total) => setValuationProgress({ done, total }),
+        isCancelled: () => cancelValuationRef.current,
+      });
+
+      if (valued === 0 && failed === 0 && !cancelValuationRef.current) {
+        Alert.alert('Up to Date', 'All Discogs-linked records were valued in the last week.');
+      } else if (failed > 0) {
+        Alert.alert('Values Updated', `${valued} records valued, ${failed} could not be valued.`);
+      }
+      setHistory(await valuationHistory.get());
+    } catch (error) {
+      console.error('Error updating values:', error);
+      Alert.alert('Error', 'Failed to update collection value');
+    } finally {
+      setValuationProgress(null);
+      onRefresh();
+    }
+  };
+
+  // Rows are memoized, so they get callbacks that stay the same across
+  // renders and call the latest props
+  const onDeleteRef = useRef(onDelete);
+  const onSelectRef = useRef(onSelect);
+  onDeleteRef.current = onDelete;
+  onSelectRef.current = onSelect;
+
+  const handleSelect = useCallback((record: VinylRecord) => onSelectRef.current(record), []);
+
+  const handleDelete = useCallback((record: VinylRecord) => {
     Alert.alert(
       'Delete Record',
       `Are you sure you want to delete "${record.albumName}" by ${record.artistName}?`,
@@ -34,11 +213,41 @@ export const CollectionScreen: React.FC<CollectionScreenProps> = ({
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => onDelete(record.id),
+          onPress: () => onDeleteRef.current(record.id),
         },
       ]
     );
-  };
+  }, []);
+
+  const renderRow = useCallback(
+    ({ item }: { item: VinylRecord[] }) =>
+      query.layout === 'grid' ? (
+        <View style={styles.gridRow}>
+          {item.map(record => (
+            <CollectionRecordTile
+              key={record.id}
+              record={record}
+              size={tileSize}
+              onSelect={handleSelect}
+            />
+          ))}
+        </View>
+      ) : (
+        <CollectionRecordRow record={item[0]} onSelect={handleSelect} onDelete={handleDelete} />
+      ),
+    [query.layout, tileSize, handleSelect, handleDelete]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: CollectionListSection }) =>
+      section.title ? (
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+          <Text style={styles.sectionCount}>{section.count}</Text>
+        </View>
+      ) : null,
+    []
+  );
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
@@ -48,24 +257,141 @@ export const CollectionScreen: React.FC<CollectionScreenProps> = ({
     });
   };
 
-  return (
-    <ScrollView
-      style={styles.container}
-      contentContainerStyle={styles.contentContainer}
-      refreshControl={
-        <RefreshControl refreshing={isLoading} onRefresh={onRefresh} tintColor="#4a9eff" />
-      }
-    >
+  const header = (
+    <View>
       {/* Header */}
       <View style={styles.header}>
-        <View>
+        <View style={styles.headerText}>
           <Text style={styles.title}>My Vinyl Collection</Text>
           <Text style={styles.subtitle}>
+            {isFiltered ? `${result.records.length} of ` : ''}
             {records.length} {records.length === 1 ? 'record' : 'records'} in your collection
           </Text>
+          {records.length > 0 && (
+            <View style={styles.headerLinks}>
+              <TouchableOpacity onPress={onShowStats}>
+                <Text style={styles.linkText}>View stats ›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onFindDuplicates}>
+                <Text style={styles.linkText}>Find duplicates ›</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
+        {records.length > 0 && (
+          <View style={styles.layoutToggle}>
+            {(['list', 'grid'] as const).map(layout => (
+              <TouchableOpacity
+                key={layout}
+                style={[styles.layoutButton, query.layout === layout && styles.layoutButtonActive]}
+                onPress={() => updateQuery({ layout })}
+                accessibilityLabel={layout === 'list' ? 'List view' : 'Grid view'}
+              >
+                <Text style={styles.layoutButtonText}>{layout === 'list' ? '☰' : '▦'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
 
+      {/* Search & Filters */}
+      {records.length > 0 && (
+        <Card style={styles.searchCard}>
+          <Input
+            placeholder="Search artist, album, label, catalog # or matrix..."
+            value={query.search}
+            onChangeText={search => updateQuery({ search })}
+            returnKeyType="search"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+          />
+
+          <TouchableOpacity
+            style={styles.filterToggle}
+            onPress={() => setShowFilters(!showFilters)}
+          >
+            <Text style={styles.filterToggleText}>
+              {showFilters ? '▾' : '▸'} Sort & filter
+              {filterCount > 0 ? ` (${filterCount} active)` : ''}
+            </Text>
+            {filterCount > 0 && (
+              <TouchableOpacity onPress={() => updateQuery({ filters: EMPTY_FILTERS })}>
+                <Text style={styles.clearFiltersText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+
+          {showFilters && (
+            <View style={styles.filterPanel}>
+              <CollectionFilterPanel
+                filters={query.filters}
+                sort={query.sort}
+                grouping={query.grouping}
+                facets={result.facets}
+                onChangeFilters={filters => updateQuery({ filters })}
+                onChangeSort={sort => updateQuery({ sort })}
+                onChangeGrouping={grouping => updateQuery({ grouping })}
+              />
+            </View>
+          )}
+        </Card>
+      )}
+
+      {/* Collection Value */}
+      {records.length > 0 && (
+        <Card style={styles.valueCard}>
+          <Text style={styles.infoLabel}>Estimated Value</Text>
+          {collectionValue.valuedCount > 0 ? (
+            <>
+              <Text style={styles.valueTotal}>{formatTotals(collectionValue.totals)}</Text>
+              <Text style={styles.valueDetail}>
+                {collectionValue.valuedCount} of {records.length} records valued
+              </Text>
+              {previousPoint && valueChanges.length > 0 && (
+                <Text style={styles.valueDetail}>
+                  {valueChanges
+                    .map(
+                      ({ currency, change }) =>
+                        `${change > 0 ? '▲' : '▼'} ${formatPrice(Math.abs(change), currency)}`
+                    )
+                    .join(' · ')}{' '}
+                  since {formatDate(previousPoint.valuedAt)}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.valueDetail}>
+              Update values to estimate what your Discogs-linked records are worth
+            </Text>
+          )}
+
+          {valuationProgress ? (
+            <View style={styles.valueActions}>
+              <Text style={styles.valueDetail}>
+                {valuationProgress.total > 0
+                  ? `Valuing ${valuationProgress.done} of ${valuationProgress.total}…`
+                  : 'Preparing…'}
+              </Text>
+              <TouchableOpacity
+                onPress={() => {
+                  cancelValuationRef.current = true;
+                }}
+              >
+                <Text style={styles.linkText}>Stop</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Button
+              onPress={handleUpdateValues}
+              title="Update Values"
+              variant="outline"
+              disabled={!isSignedIn}
+              style={styles.valueButton}
+            />
+          )}
+        </Card>
+      )}
+
       {/* Empty State */}
       {!isLoading && records.length === 0 && (
         <Card style={styles.emptyCard}>
@@ -77,52 +403,48 @@ export const CollectionScreen: React.FC<CollectionScreenProps> = ({
         </Card>
       )}
 
-      {/* Records List */}
-      {records.map((record) => (
-        <Card key={record.id} style={styles.recordCard}>
-          <View style={styles.recordContent}>
-            <AlbumCover
-              artistName={record.artistName}
-              albumName={record.albumName}
-              uploadedImageUrl={record.imageUrl}
-              size={100}
-            />
-
-            <View style={styles.recordInfo}>
-              {record.artistName && (
-                <View style={styles.infoItem}>
-                  <Text style={styles.infoLabel}>Artist</Text>
-                  <Text style={styles.infoValue}>{record.artistName}</Text>
-                </View>
-              )}
-
-              {record.albumName && (
-                <View style={styles.infoItem}>
-                  <Text style={styles.infoLabel}>Album</Text>
-                  <Text style={styles.infoValue}>{record.albumName}</Text>
-                </View>
-              )}
-
-              {record.year && (
-                <View style={styles.infoItem}>
-                  <Text style={styles.infoLabel}>Year</Text>
-                  <Text style={styles.infoValue}>{record.year}</Text>
-                </View>
-              )}
+      {/* No Matches */}
+      {records.length > 0 && result.records.length === 0 && (
+        <Card style={styles.emptyCard}>
+          <Text style={styles.emptyTitle}>No Matching Records</Text>
+          <Text style={styles.emptyText}>Try another search or clear the filters</Text>
+        </Card>
+      )}
 
-              <Text style={styles.dateText}>Added {formatDate(record.createdAt)}</Text>
+    </View>
+  );
 
-              <TouchableOpacity
-                style={styles.deleteButton}
-                onPress={() => handleDelete(record)}
-              >
-                <Text style={styles.deleteButtonText}>🗑️ Delete</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </Card>
-      ))}
-    </ScrollView>
+  return (
+    <View style={styles.container}>
+      <SectionList
+        ref={listRef}
+        sections={sections}
+        keyExtractor={row => row[0].id}
+        renderItem={renderRow}
+        renderSectionHeader={renderSectionHeader}
+        ListHeaderComponent={header}
+        stickySectionHeadersEnabled
+        contentContainerStyle={[
+          styles.contentContainer,
+          showScrubber && styles.contentWithScrubber,
+        ]}
+        keyboardShouldPersistTaps="handled"
+        initialNumToRender={8}
+        maxToRenderPerBatch={8}
+        windowSize={7}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={onRefresh} tintColor="#4a9eff" />
+        }
+      />
+      {showScrubber && (
+        <SectionIndexScrubber
+          titles={INDEX_TITLES}
+          available={sectionTitles}
+          onSelect={handleScrub}
+        />
+      )}
+    </View>
   );
 };
 
@@ -169,39 +491,110 @@ const styles = StyleSheet.create({
     color: '#999',
     textAlign: 'center',
   },
-  recordCard: {
+  infoLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  valueCard: {
     marginBottom: 16,
   },
-  recordContent: {
+  valueTotal: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#e8e8e8',
+    marginBottom: 4,
+  },
+  valueDetail: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 2,
+  },
+  valueActions: {
     flexDirection: 'row',
-    gap: 16,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
   },
-  recordInfo: {
-    flex: 1,
+  valueButton: {
+    marginTop: 12,
   },
-  infoItem: {
-    marginBottom: 8,
+  linkText: {
+    fontSize: 14,
+    color: '#4a9eff',
   },
-  infoLabel: {
-    fontSize: 12,
-    color: '#999',
-    marginBottom: 2,
+  searchCard: {
+    marginBottom: 16,
+  },
+  filterToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  filterToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a9eff',
   },
-  infoValue: {
+  clearFiltersText: {
     fontSize: 14,
+    color: '#999',
+  },
+  filterPanel: {
+    marginTop: 16,
+  },
+  contentWithScrubber: {
+    paddingRight: CONTENT_PADDING + SCRUBBER_WIDTH,
+  },
+  headerText: {
+    flex: 1,
+  },
+  layoutToggle: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  layoutButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  layoutButtonActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  layoutButtonText: {
+    fontSize: 16,
     color: '#e8e8e8',
   },
-  dateText: {
-    fontSize: 12,
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginBottom: 8,
+    backgroundColor: '#212121',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+  },
+  sectionCount: {
+    fontSize: 13,
     color: '#666',
-    marginTop: 8,
   },
-  deleteButton: {
-    marginTop: 8,
-    alignSelf: 'flex-start',
+  gridRow: {
+    flexDirection: 'row',
+    gap: GRID_GAP,
+    marginBottom: GRID_GAP,
   },
-  deleteButtonText: {
-    fontSize: 14,
-    color: '#ef4444',
+  headerLinks: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
   },
 });
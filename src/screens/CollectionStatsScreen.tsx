@@ -0,0 +1,219 @@
+import React, { useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Text } from 'react-native';
+import { Card } from '../components/ui';
+import { BarChart } from '../components/BarChart';
+import { MonthlyBarChart } from '../components/MonthlyBarChart';
+import { VinylRecord } from '../types';
+import { STAT_BREAKDOWNS, StatCount, computeCollectionStats } from '../utils/collectionStats';
+import { formatTotals, getCollectionValue } from '../utils/valuation';
+
+interface CollectionStatsScreenProps {
+  records: VinylRecord[];
+}
+
+const toChartItems = (counts: StatCount[]) =>
+  counts.map(({ value, count }) => ({ label: value, value: count }));
+
+export const CollectionStatsScreen: React.FC<CollectionStatsScreenProps> = ({ records }) => {
+  const stats = useMemo(() => computeCollectionStats(records), [records]);
+  const collectionValue = useMemo(() => getCollectionValue(records), [records]);
+
+  if (records.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Card style={styles.emptyCard}>
+          <Text style={styles.emptyIcon}>📊</Text>
+          <Text style={styles.emptyTitle}>No Stats Yet</Text>
+          <Text style={styles.emptyText}>Add records to see what your collection looks like</Text>
+        </Card>
+      </View>
+    );
+  }
+
+  const totals = [
+    { label: 'Records', value: String(stats.recordCount) },
+    { label: 'Artists', value: String(stats.artistCount) },
+    { label: 'Labels', value: String(stats.labelCount) },
+    {
+      label: 'Years',
+      value:
+        stats.earliestYear === null
+          ? '—'
+          : stats.earliestYear === stats.latestYear
+            ? String(stats.earliestYear)
+            : `${stats.earliestYear}–${stats.latestYear}`,
+    },
+  ];
+
+  const completeness = [
+    { label: 'Linked to a Discogs release', missing: stats.missing.discogsId },
+    { label: 'Release year', missing: stats.missing.year },
+    { label: 'Cover image', missing: stats.missing.cover },
+  ];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* Totals */}
+      <Card style={styles.card}>
+        <View style={styles.totalsGrid}>
+          {totals.map(total => (
+            <View key={total.label} style={styles.totalItem}>
+              <Text style={styles.totalValue}>{total.value}</Text>
+              <Text style={styles.totalLabel}>{total.label}</Text>
+            </View>
+          ))}
+        </View>
+        {collectionValue.valuedCount > 0 && (
+          <Text style={styles.infoText}>
+            Estimated value {formatTotals(collectionValue.totals)} (
+            {collectionValue.valuedCount} of {stats.recordCount} valued)
+          </Text>
+        )}
+      </Card>
+
+      {/* Metadata */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Metadata</Text>
+        {completeness.map(item => {
+          const complete = stats.recordCount - item.missing;
+          const percent = Math.round((complete / stats.recordCount) * 100);
+          return (
+            <View key={item.label} style={styles.completenessRow}>
+              <View style={styles.completenessHeader}>
+                <Text style={styles.completenessLabel}>{item.label}</Text>
+                <Text style={styles.completenessValue}>
+                  {percent}%{item.missing > 0 ? ` · ${item.missing} missing` : ''}
+                </Text>
+              </View>
+              <View style={styles.track}>
+                <View
+                  style={[
+                    styles.trackFill,
+                    { width: `${percent}%` },
+                    percent < 50 && styles.trackFillLow,
+                  ]}
+                />
+              </View>
+            </View>
+          );
+        })}
+      </Card>
+
+      {/* Added Per Month */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Added Per Month</Text>
+        <MonthlyBarChart months={stats.addedPerMonth} />
+      </Card>
+
+      {/* Top Artists */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Top Artists</Text>
+        <BarChart items={toChartItems(stats.topArtists)} limit={10} />
+      </Card>
+
+      {/* Breakdowns */}
+      {STAT_BREAKDOWNS.map(breakdown => (
+        <Card key={breakdown.key} style={styles.card}>
+          <Text style={styles.sectionTitle}>{breakdown.label}</Text>
+          {stats.breakdowns[breakdown.key].length > 0 ? (
+            <BarChart items={toChartItems(stats.breakdowns[breakdown.key])} />
+          ) : (
+            <Text style={styles.infoText}>No records have this yet</Text>
+          )}
+        </Card>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  totalsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  totalItem: {
+    width: '50%',
+    marginBottom: 12,
+  },
+  totalValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#e8e8e8',
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  completenessRow: {
+    marginBottom: 12,
+  },
+  completenessHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  completenessLabel: {
+    fontSize: 14,
+    color: '#e8e8e8',
+  },
+  completenessValue: {
+    fontSize: 13,
+    color: '#999',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#2a2a2a',
+    overflow: 'hidden',
+  },
+  trackFill: {
+    height: '100%',
+    backgroundColor: '#22c55e',
+  },
+  trackFillLow: {
+    backgroundColor: '#f59e0b',
+  },
+  emptyCard: {
+    margin: 16,
+    padding: 48,
+    alignItems: 'center',
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
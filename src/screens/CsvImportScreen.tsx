@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { View, ScrollView, StyleSheet, Text, TouchableOpacity, Alert } from 'react-native';
+import { Card, Button } from '../components/ui';
+import {
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvDuplicateMode,
+  CsvFile,
+  CsvImportRow,
+  guessColumnMapping,
+  importCsvRows,
+  pickCsvFile,
+  previewCsvImport,
+} from '../utils/collectionCsv';
+import { VinylRecord } from '../types';
+
+// Rows listed in the preview; the counts cover every row
+const PREVIEW_ROWS = 20;
+
+const DUPLICATE_MODES: Array<{ value: CsvDuplicateMode; label: string }> = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'merge', label: 'Merge details' },
+  { value: 'add', label: 'Add as copy' },
+];
+
+const STATUS_LABELS: Record<CsvImportRow['status'], string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  error: 'Error',
+};
+
+interface CsvImportScreenProps {
+  // Current collection, to find duplicates
+  records: VinylRecord[];
+  // Called after rows were saved so the collection can be reloaded
+  onImported: () => void;
+  onDone: () => void;
+}
+
+export const CsvImportScreen: React.FC<CsvImportScreenProps> = ({
+  records,
+  onImported,
+  onDone,
+}) => {
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [duplicateMode, setDuplicateMode] = useState<CsvDuplicateMode>('skip');
+  const [isPicking, setIsPicking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const preview = useMemo(
+    () => (file && mapping ? previewCsvImport(file.rows, mapping, records) : []),
+    [file, mapping, records]
+  );
+  const counts = useMemo(
+    () => ({
+      new: preview.filter(row => row.status === 'new').length,
+      duplicate: preview.filter(row => row.status === 'duplicate').length,
+      error: preview.filter(row => row.status === 'error').length,
+    }),
+    [preview]
+  );
+  const importCount = counts.new + (duplicateMode === 'skip' ? 0 : counts.duplicate);
+
+  const handlePickFile = async () => {
+    setIsPicking(true);
+    try {
+      const picked = await pickCsvFile();
+      if (picked) {
+        setFile(picked);
+        setMapping(guessColumnMapping(picked.headers));
+      }
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importCsvRows(preview, duplicateMode);
+      onImported();
+      Alert.alert(
+        'Import Complete',
+        `${result.added} added, ${result.merged} merged, ${result.skipped} skipped`,
+        [{ text: 'OK', onPress: onDone }]
+      );
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to import records');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!file || !mapping) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Import from CSV</Text>
+          <Text style={styles.infoText}>
+            Choose a CSV file with a header row, such as a Discogs collection export. You can
+            match its columns to record fields and check every row before anything is saved.
+          </Text>
+          <Button
+            onPress={handlePickFile}
+            title="Choose CSV File"
+            disabled={isPicking}
+            loading={isPicking}
+          />
+        </Card>
+      </ScrollView>
+    );
+  }
+
+  const errorRows = preview.filter(row => row.status === 'error');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* File */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle} numberOfLines={1}>
+          {file.name}
+        </Text>
+        <Text style={styles.infoText}>
+          {file.rows.length} {file.rows.length === 1 ? 'row' : 'rows'} · {counts.new} new ·{' '}
+          {counts.duplicate} already in your collection · {counts.error} with errors
+        </Text>
+        <Button onPress={handlePickFile} title="Choose Another File" variant="outline" />
+      </Card>
+
+      {/* Column Mapping */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Columns</Text>
+        {CSV_FIELDS.map(field => (
+          <View key={field.key} style={styles.mappingRow}>
+            <Text style={styles.fieldLabel}>{field.label}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.chipRow}>
+                {[null, ...file.headers.map((_, index) => index)].map(index => {
+                  const isSelected = mapping[field.key] === index;
+                  return (
+                    <TouchableOpacity
+                      key={index ?? 'none'}
+                      style={[styles.chip, isSelected && styles.chipActive]}
+                      onPress={() => setMapping({ ...mapping, [field.key]: index })}
+                    >
+                      <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                        {index === null
+                          ? 'Not imported'
+                          : file.headers[index] || `Column ${index + 1}`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ScrollView>
+          </View>
+        ))}
+      </Card>
+
+      {/* Duplicates */}
+      {counts.duplicate > 0 && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Already in Collection</Text>
+          <Text style={styles.infoText}>
+            {counts.duplicate} {counts.duplicate === 1 ? 'row matches' : 'rows match'} a record
+            you already have or an earlier row in the file, by Discogs release ID or by artist
+            and title.
+          </Text>
+          <View style={styles.chipRow}>
+            {DUPLICATE_MODES.map(mode => {
+              const isSelected = mode.value === duplicateMode;
+              return (
+                <TouchableOpacity
+                  key={mode.value}
+                  style={[styles.chip, isSelected && styles.chipActive]}
+                  onPress={() => setDuplicateMode(mode.value)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                    {mode.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Card>
+      )}
+
+      {/* Errors */}
+      {errorRows.length > 0 && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Rows With Errors</Text>
+          <Text style={styles.infoText}>These rows will not be imported.</Text>
+          {errorRows.map(row => (
+            <Text key={row.line} style={styles.errorText}>
+              Line {row.line}: {row.errors.join('; ')}
+            </Text>
+          ))}
+        </Card>
+      )}
+
+      {/* Preview */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Preview</Text>
+        {preview.slice(0, PREVIEW_ROWS).map(row => (
+          <View key={row.line} style={styles.previewRow}>
+            <Text
+              style={[
+                styles.statusBadge,
+                row.status === 'duplicate' && styles.statusDuplicate,
+                row.status === 'error' && styles.statusError,
+              ]}
+            >
+              {STATUS_LABELS[row.status]}
+            </Text>
+            <Text style={styles.previewText} numberOfLines={1}>
+              {row.record
+                ? [row.record.artistName, row.record.albumName].filter(Boolean).join(' – ') ||
+                  `Release ${row.record.discogsId}`
+                : `Line ${row.line}`}
+            </Text>
+          </View>
+        ))}
+        {preview.length > PREVIEW_ROWS && (
+          <Text style={styles.infoText}>and {preview.length - PREVIEW_ROWS} more</Text>
+        )}
+      </Card>
+
+      <Button
+        onPress={handleImport}
+        title={`Import ${importCount} ${importCount === 1 ? 'Record' : 'Records'}`}
+        disabled={isImporting || importCount === 0}
+        loading={isImporting}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginBottom: 4,
+  },
+  mappingRow: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  statusBadge: {
+    width: 72,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#22c55e',
+  },
+  statusDuplicate: {
+    color: '#f59e0b',
+  },
+  statusError: {
+    color: '#ef4444',
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#e8e8e8',
+  },
+});
@@ -1,7 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import {
   View,
-  ScrollView,
+  FlatList,
   StyleSheet,
   Text,
   TouchableOpacity,
@@ -9,54 +9,160 @@ import {
   Alert,
 } from 'react-native';
 import { Card, Button, Input } from '../components/ui';
-import { AlbumCover } from '../components/AlbumCover';
+import { SearchResultCard } from '../components/SearchResultCard';
+import { DiscogsStatusBanner } from '../components/DiscogsStatusBanner';
+import { DiscogsSetupCard } from '../components/DiscogsSetupCard';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
+import { useWantlist } from '../hooks/useWantlist';
+import { wantlist, searchResultToWant } from '../utils/wantlist';
+import {
+  AdvancedSearchPanel,
+  DiscogsSearchFilters,
+  countActiveFilters,
+} from '../components/AdvancedSearchPanel';
 import {
   discogsAPI,
   DiscogsSearchResult,
+  DiscogsSearchResponse,
+  DiscogsSearchParams,
   DiscogsReleaseDetails,
 } from '../utils/discogs';
 
+const PER_PAGE_OPTIONS = [20, 50, 100];
+
+// Discogs can return the same release on consecutive pages when results shift
+// between requests, so later pages are merged by id
+function mergeResults(
+  existing: DiscogsSearchResult[],
+  incoming: DiscogsSearchResult[]
+): DiscogsSearchResult[] {
+  const seen = new Set(existing.map(result => `${result.type}:${result.id}`));
+  const unique = incoming.filter(result => {
+    const key = `${result.type}:${result.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...existing, ...unique];
+}
+
 interface DiscogsSearchScreenProps {
   onSelectRelease: (release: DiscogsReleaseDetails) => void;
+  onScanBarcode: () => void;
+  onOpenSettings: () => void;
 }
 
 export const DiscogsSearchScreen: React.FC<DiscogsSearchScreenProps> = ({
   onSelectRelease,
+  onScanBarcode,
+  onOpenSettings,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [results, setResults] = useState<DiscogsSearchResult[]>([]);
-  const [isConfigured] = useState(discogsAPI.isConfigured());
+  const [pagination, setPagination] = useState<DiscogsSearchResponse['pagination'] | null>(null);
+  const [perPage, setPerPage] = useState(PER_PAGE_OPTIONS[0]);
+  const [filters, setFilters] = useState<DiscogsSearchFilters>({});
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  // Search the current results belong to, used when loading further pages
+  const [activeParams, setActiveParams] = useState<DiscogsSearchParams | null>(null);
+  const isConfigured = useDiscogsAccount().status === 'signedIn';
+  const wantedItems = useWantlist().items;
+  const wantedIds = new Set(wantedItems.map(item => item.discogsId));
+  // Incremented per new search so responses for an older search are ignored
+  const searchIdRef = useRef(0);
+
+  const runSearch = async (params: DiscogsSearchParams, pageSize: number) => {
+    const searchId = ++searchIdRef.current;
+    setIsSearching(true);
+    setIsLoadingMore(false);
+    setResults([]);
+    setPagination(null);
+    setActiveParams(params);
+
+    try {
+      const response = await discogsAPI.search(params, 'release', 1, pageSize);
+      if (searchId !== searchIdRef.current) return;
+
+      setResults(mergeResults([], response.results || []));
+      setPagination(response.pagination);
+
+      if (!response.results || response.results.length === 0) {
+        Alert.alert('No Results', 'No results found. Try a different search.');
+      }
+    } catch (error) {
+      if (searchId !== searchIdRef.current) return;
+      console.error('Search error:', error);
+      Alert.alert(
+        'Search Error',
+        error instanceof Error ? error.message : 'Failed to search Discogs'
+      );
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsSearching(false);
+      }
+    }
+  };
 
   const handleSearch = async () => {
     if (!isConfigured) {
-      Alert.alert('Configuration Required', 'Please configure your Discogs API credentials first');
+      Alert.alert('Configuration Required', 'Please connect your Discogs account in Settings first');
       return;
     }
 
-    if (!searchQuery.trim()) {
-      Alert.alert('Search Required', 'Please enter a search query');
+    if (!searchQuery.trim() && countActiveFilters(filters) === 0) {
+      Alert.alert('Search Required', 'Please enter a search query or an advanced filter');
       return;
     }
 
-    setIsSearching(true);
-    setResults([]);
+    await runSearch({ ...filters, query: searchQuery.trim() }, perPage);
+  };
+
+  const handleLoadMore = async () => {
+    if (
+      !activeParams ||
+      !pagination ||
+      pagination.page >= pagination.pages ||
+      isSearching ||
+      isLoadingMore
+    ) {
+      return;
+    }
+
+    const searchId = searchIdRef.current;
+    setIsLoadingMore(true);
 
     try {
-      const response = await discogsAPI.search(searchQuery.trim(), 'release');
-      setResults(response.results || []);
+      const response = await discogsAPI.search(
+        activeParams,
+        'release',
+        pagination.page + 1,
+        pagination.per_page
+      );
+      if (searchId !== searchIdRef.current) return;
 
-      if (!response.results || response.results.length === 0) {
-        Alert.alert('No Results', 'No results found. Try a different search.');
-      }
+      setResults(prev => mergeResults(prev, response.results || []));
+      setPagination(response.pagination);
     } catch (error) {
-      console.error('Search error:', error);
+      if (searchId !== searchIdRef.current) return;
+      console.error('Load more error:', error);
       Alert.alert(
         'Search Error',
-        error instanceof Error ? error.message : 'Failed to search Discogs'
+        error instanceof Error ? error.message : 'Failed to load more results'
       );
     } finally {
-      setIsSearching(false);
+      if (searchId === searchIdRef.current) {
+        setIsLoadingMore(false);
+      }
+    }
+  };
+
+  const handlePerPageChange = (size: number) => {
+    setPerPage(size);
+    // Re-run the current search so pages line up with the new size
+    if (activeParams) {
+      runSearch(activeParams, size);
     }
   };
 
@@ -82,23 +188,38 @@ export const DiscogsSearchScreen: React.FC<DiscogsSearchScreenProps> = ({
     }
   };
 
+  const handleWant = async (result: DiscogsSearchResult) => {
+    try {
+      await wantlist.add(searchResultToWant(result));
+    } catch (error) {
+      console.error('Error adding to wantlist:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to add release to wantlist'
+      );
+    }
+  };
+
   if (!isConfigured) {
-    return (
-      <View style={styles.container}>
-        <Card style={styles.errorCard}>
-          <Text style={styles.errorIcon}>⚠️</Text>
-          <Text style={styles.errorTitle}>Configuration Required</Text>
-          <Text style={styles.errorText}>
-            Please configure your Discogs API token in the .env file to use this feature.
-          </Text>
-        </Card>
-      </View>
-    );
+    return <DiscogsSetupCard onOpenSettings={onOpenSettings} />;
   }
 
-  return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+  const hasMore = !!pagination && pagination.page < pagination.pages;
+  const activeFilterCount = countActiveFilters(filters);
+
+  const renderResult = ({ item: result }: { item: DiscogsSearchResult }) => (
+    <SearchResultCard
+      result={result}
+      onPress={handleSelectResult}
+      onWant={result.type === 'release' ? handleWant : undefined}
+      isWanted={wantedIds.has(result.id)}
+    />
+  );
+
+  const header = (
+    <View>
       <Text style={styles.title}>Search Discogs</Text>
+      <DiscogsStatusBanner />
 
       <Card style={styles.searchCard}>
         <Input
@@ -108,6 +229,40 @@ export const DiscogsSearchScreen: React.FC<DiscogsSearchScreenProps> = ({
           onSubmitEditing={handleSearch}
           returnKeyType="search"
         />
+
+        <TouchableOpacity
+          style={styles.advancedToggle}
+          onPress={() => setShowAdvanced(!showAdvanced)}
+        >
+          <Text style={styles.advancedToggleText}>
+            {showAdvanced ? '▾' : '▸'} Advanced search
+            {activeFilterCount > 0 ? ` (${activeFilterCount} active)` : ''}
+          </Text>
+          {activeFilterCount > 0 && (
+            <TouchableOpacity onPress={() => setFilters({})}>
+              <Text style={styles.clearFiltersText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+
+        {showAdvanced && <AdvancedSearchPanel filters={filters} onChange={setFilters} />}
+
+        <View style={styles.perPageRow}>
+          <Text style={styles.perPageLabel}>Results per page</Text>
+          {PER_PAGE_OPTIONS.map(size => (
+            <TouchableOpacity
+              key={size}
+              style={[styles.perPageChip, perPage === size && styles.perPageChipActive]}
+              onPress={() => handlePerPageChange(size)}
+              disabled={isSearching}
+            >
+              <Text style={[styles.perPageText, perPage === size && styles.perPageTextActive]}>
+                {size}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         <Button
           onPress={handleSearch}
           title="Search"
@@ -115,6 +270,12 @@ export const DiscogsSearchScreen: React.FC<DiscogsSearchScreenProps> = ({
           loading={isSearching}
           style={styles.searchButton}
         />
+        <Button
+          onPress={onScanBarcode}
+          title="Scan Barcode"
+          variant="outline"
+          style={styles.searchButton}
+        />
       </Card>
 
       {isSearching && (
@@ -124,63 +285,44 @@ export const DiscogsSearchScreen: React.FC<DiscogsSearchScreenProps> = ({
         </View>
       )}
 
-      {!isSearching && results.length > 0 && (
-        <View style={styles.resultsContainer}>
-          <Text style={styles.resultsHeader}>
-            Found {results.length} results
-          </Text>
-
-          {results.map((result) => (
-            <TouchableOpacity
-              key={result.id}
-              onPress={() => handleSelectResult(result)}
-              activeOpacity={0.7}
-            >
-              <Card style={styles.resultCard}>
-                <View style={styles.resultContent}>
-                  <AlbumCover
-                    artistName={result.title.split(' - ')[0] || ''}
-                    albumName={result.title}
-                    uploadedImageUrl={result.thumb}
-                    size={80}
-                  />
-
-                  <View style={styles.resultInfo}>
-                    <Text style={styles.resultTitle} numberOfLines={2}>
-                      {result.title}
-                    </Text>
-
-                    {result.year && (
-                      <Text style={styles.resultDetail}>Year: {result.year}</Text>
-                    )}
-
-                    {result.country && (
-                      <Text style={styles.resultDetail}>Country: {result.country}</Text>
-                    )}
-
-                    {result.format && result.format.length > 0 && (
-                      <Text style={styles.resultDetail}>
-                        Format: {result.format.join(', ')}
-                      </Text>
-                    )}
-
-                    {result.label && result.label.length > 0 && (
-                      <Text style={styles.resultDetail} numberOfLines={1}>
-                        Label: {result.label.join(', ')}
-                      </Text>
-                    )}
-                  </View>
-                </View>
-
-                <View style={styles.addButton}>
-                  <Text style={styles.addButtonText}>+ Add</Text>
-                </View>
-              </Card>
-            </TouchableOpacity>
-          ))}
-        </View>
+      {!isSearching && pagination && results.length > 0 && (
+        <Text style={styles.resultsHeader}>
+          Found {pagination.items.toLocaleString()} {pagination.items === 1 ? 'result' : 'results'}
+          {hasMore ? ` · showing ${results.length}` : ''}
+        </Text>
       )}
-    </ScrollView>
+    </View>
+  );
+
+  const footer = isLoadingMore ? (
+    <View style={styles.footer}>
+      <ActivityIndicator color="#4a9eff" />
+    </View>
+  ) : hasMore ? (
+    <Button
+      onPress={handleLoadMore}
+      title="Load More"
+      variant="outline"
+      style={styles.footer}
+    />
+  ) : results.length > 0 ? (
+    <Text style={[styles.footer, styles.endText]}>End of results</Text>
+  ) : null;
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      data={isSearching ? [] : results}
+      keyExtractor={result => `${result.type}:${result.id}`}
+      renderItem={renderResult}
+      extraData={wantedItems}
+      ListHeaderComponent={header}
+      ListFooterComponent={footer}
+      onEndReached={handleLoadMore}
+      onEndReachedThreshold={0.5}
+      keyboardShouldPersistTaps="handled"
+    />
   );
 };
 
@@ -213,67 +355,64 @@ const styles = StyleSheet.create({
     marginTop: 12,
     fontSize: 16,
   },
-  resultsContainer: {
-    marginTop: 8,
-  },
   resultsHeader: {
     fontSize: 16,
     fontWeight: '600',
     color: '#e8e8e8',
+    marginTop: 8,
     marginBottom: 12,
   },
-  resultCard: {
-    marginBottom: 12,
-  },
-  resultContent: {
+  advancedToggle: {
     flexDirection: 'row',
-    gap: 12,
-    marginBottom: 8,
-  },
-  resultInfo: {
-    flex: 1,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
   },
-  resultTitle: {
-    fontSize: 16,
+  advancedToggleText: {
+    fontSize: 14,
     fontWeight: '600',
-    color: '#e8e8e8',
-    marginBottom: 6,
+    color: '#4a9eff',
   },
-  resultDetail: {
-    fontSize: 13,
+  clearFiltersText: {
+    fontSize: 14,
     color: '#999',
-    marginBottom: 2,
   },
-  addButton: {
-    backgroundColor: '#4a9eff',
-    paddingVertical: 8,
-    paddingHorizontal: 16,
-    borderRadius: 6,
-    alignSelf: 'flex-start',
+  perPageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
   },
-  addButtonText: {
-    color: '#fff',
-    fontWeight: '600',
+  perPageLabel: {
     fontSize: 14,
+    color: '#999',
+    marginRight: 4,
   },
-  errorCard: {
-    marginTop: 32,
-    padding: 32,
-    alignItems: 'center',
+  perPageChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
   },
-  errorIcon: {
-    fontSize: 48,
-    marginBottom: 16,
+  perPageChipActive: {
+    backgroundColor: '#4a9eff',
+    borderColor: '#4a9eff',
   },
-  errorTitle: {
-    fontSize: 18,
+  perPageText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  perPageTextActive: {
+    color: '#fff',
     fontWeight: '600',
-    color: '#e8e8e8',
-    marginBottom: 8,
   },
-  errorText: {
-    fontSize: 14,
-    color: '#999',
+  footer: {
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  endText: {
+    fontSize: 13,
+    color: '#666',
     textAlign: 'center',
   },
 });
@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { View, ScrollView, StyleSheet, Text, TouchableOpacity, Alert } from 'react-native';
+import { Card, Button } from '../components/ui';
+import { AlbumCover } from '../components/AlbumCover';
+import { VinylRecord } from '../types';
+import { api } from '../utils/api';
+import {
+  DUPLICATE_KIND_LABELS,
+  DuplicateGroup,
+  chooseMergeTarget,
+  findDuplicateGroups,
+  keepAllCopyLinks,
+} from '../utils/duplicates';
+
+interface DuplicatesScreenProps {
+  records: VinylRecord[];
+  onSelect: (record: VinylRecord) => void;
+  // Called after records were merged or kept so the collection reloads
+  onChanged: () => void;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const groupKey = (group: DuplicateGroup) => group.records.map(record => record.id).join('|');
+
+export const DuplicatesScreen: React.FC<DuplicatesScreenProps> = ({
+  records,
+  onSelect,
+  onChanged,
+}) => {
+  const groups = useMemo(() => findDuplicateGroups(records), [records]);
+  // Group being merged or kept
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const target = chooseMergeTarget(group.records);
+    const others = group.records.filter(record => record.id !== target.id);
+
+    Alert.alert(
+      'Merge Records',
+      `Keep the record added ${formatDate(target.createdAt)}, fill in anything it's missing ` +
+        `from the other ${others.length === 1 ? 'copy' : `${others.length} copies`}, and ` +
+        'delete them? Your Discogs collection is not changed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyGroup(groupKey(group));
+            try {
+              await api.mergeRecords(target.id, others.map(record => record.id));
+              onChanged();
+            } catch (error) {
+              console.error('Error merging records:', error);
+              Alert.alert(
+                'Error',
+                error instanceof Error ? error.message : 'Failed to merge records'
+              );
+            } finally {
+              setBusyGroup(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Mark the newer records as deliberate copies of the oldest
+  const handleKeepAll = async (group: DuplicateGroup) => {
+    setBusyGroup(groupKey(group));
+    try {
+      for (const link of keepAllCopyLinks(group.records, records)) {
+        await api.updateRecord(link.id, { copyOf: link.copyOf });
+      }
+      onChanged();
+    } catch (error) {
+      console.error('Error keeping copies:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update records');
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  if (groups.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Card style={styles.emptyCard}>
+          <Text style={styles.emptyIcon}>✓</Text>
+          <Text style={styles.emptyTitle}>No Duplicates</Text>
+          <Text style={styles.emptyText}>
+            No records share a Discogs release, a catalog number and label, or a close match
+            on artist and album
+          </Text>
+        </Card>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.summaryText}>
+        {groups.length} {groups.length === 1 ? 'group' : 'groups'} of possible duplicates
+      </Text>
+
+      {groups.map(group => {
+        const key = groupKey(group);
+        const target = chooseMergeTarget(group.records);
+        const isBusy = busyGroup === key;
+
+        return (
+          <Card key={key} style={styles.card}>
+            <Text style={styles.kindText}>{DUPLICATE_KIND_LABELS[group.kind]}</Text>
+
+            {group.records.map(record => (
+              <TouchableOpacity
+                key={record.id}
+                style={styles.recordRow}
+                onPress={() => onSelect(record)}
+                activeOpacity={0.7}
+              >
+                <AlbumCover
+                  artistName={record.artistName}
+                  albumName={record.albumName}
+                  uploadedImageUrl={record.imageUrl}
+                  size={48}
+                />
+                <View style={styles.recordInfo}>
+                  <Text style={styles.recordTitle} numberOfLines={1}>
+                    {[record.artistName, record.albumName].filter(Boolean).join(' – ')}
+                  </Text>
+                  <Text style={styles.recordDetail} numberOfLines={1}>
+                    {[record.label, record.serialNumber, record.year]
+                      .filter(Boolean)
+                      .join(' · ') || 'No label details'}
+                  </Text>
+                  <Text style={styles.recordDetail}>
+                    Added {formatDate(record.createdAt)}
+                    {record.discogsId ? ` · Discogs ${record.discogsId}` : ''}
+                  </Text>
+                </View>
+                {record.id === target.id && <Text style={styles.keepBadge}>Keep</Text>}
+              </TouchableOpacity>
+            ))}
+
+            <View style={styles.buttonRow}>
+              <View style={styles.buttonContainer}>
+                <Button
+                  onPress={() => handleKeepAll(group)}
+                  title="Keep All"
+                  variant="outline"
+                  disabled={busyGroup !== null}
+                />
+              </View>
+              <View style={styles.buttonContainer}>
+                <Button
+                  onPress={() => handleMerge(group)}
+                  title="Merge"
+                  disabled={busyGroup !== null}
+                  loading={isBusy}
+                />
+              </View>
+            </View>
+          </Card>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  kindText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#f59e0b',
+    marginBottom: 8,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e8e8e8',
+  },
+  recordDetail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  keepBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#22c55e',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  buttonContainer: {
+    flex: 1,
+  },
+  emptyCard: {
+    margin: 16,
+    padding: 48,
+    alignItems: 'center',
+  },
+  emptyIcon: {
+    fontSize: 48,
+    color: '#22c55e',
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
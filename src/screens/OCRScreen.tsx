@@ -11,7 +11,17 @@ import {
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import { Button, Card } from '../components/ui';
+import { VinylDataForm } from '../components/VinylDataForm';
 import { VinylData } from '../types';
+import type { FieldConfidence } from '../utils/ocr';
+import {
+  createEmptyVinylData,
+  toFormValues,
+  fromFormValues,
+  validateVinylForm,
+  hasFormErrors,
+} from '../utils/vinylForm';
+import type { VinylFormValues, VinylFormErrors } from '../utils/vinylForm';
 
 interface OCRScreenProps {
   onImageUpload: (imageUrl: string) => void;
@@ -19,6 +29,7 @@ interface OCRScreenProps {
   onReset: () => void;
   isProcessing: boolean;
   extractedData: VinylData | null;
+  fieldConfidence: FieldConfidence;
   onDataUpdate: (data: VinylData) => void;
   onSave: () => void;
   isSaving: boolean;
@@ -30,6 +41,7 @@ export const OCRScreen: React.FC<OCRScreenProps> = ({
   onReset,
   isProcessing,
   extractedData,
+  fieldConfidence,
   onDataUpdate,
   onSave,
   isSaving,
@@ -135,6 +147,15 @@ export const OCRScreen: React.FC<OCRScreenProps> = ({
               />
             </View>
           </View>
+
+          {!extractedData && (
+            <Button
+              onPress={() => onDataUpdate(createEmptyVinylData())}
+              title="Enter Details Manually"
+              variant="secondary"
+              style={styles.manualButton}
+            />
+          )}
         </Card>
       ) : (
         <Card>
@@ -160,12 +181,16 @@ export const OCRScreen: React.FC<OCRScreenProps> = ({
       )}
 
       {/* Data Display Section */}
-      {extractedData && (
+      {extractedData && !isProcessing && (
         <Card style={styles.dataCard}>
           <DataDisplaySection
+            key={uploadedImage || 'manual'}
             data={extractedData}
+            isManualEntry={!uploadedImage}
+            confidence={fieldConfidence}
             onDataUpdate={onDataUpdate}
             onSave={onSave}
+            onDiscard={onReset}
             isSaving={isSaving}
           />
         </Card>
@@ -174,27 +199,106 @@ export const OCRScreen: React.FC<OCRScreenProps> = ({
   );
 };
 
-// Simplified DataDisplay for OCR screen
+// Confidence at or above this is shown as "likely", below as "guess"
+const HIGH_CONFIDENCE = 0.75;
+
+const ConfidenceBadge: React.FC<{ confidence?: number }> = ({ confidence }) => {
+  if (confidence === undefined) return null;
+
+  const isHigh = confidence >= HIGH_CONFIDENCE;
+  return (
+    <View style={[styles.confidenceBadge, isHigh ? styles.confidenceHigh : styles.confidenceLow]}>
+      <Text style={styles.confidenceText}>
+        {isHigh ? 'Likely' : 'Guess'} · {Math.round(confidence * 100)}%
+      </Text>
+    </View>
+  );
+};
+
+// Editable form for OCR results or manual entry
 const DataDisplaySection: React.FC<{
   data: VinylData;
+  isManualEntry: boolean;
+  confidence: FieldConfidence;
   onDataUpdate: (data: VinylData) => void;
   onSave: () => void;
+  onDiscard: () => void;
   isSaving: boolean;
-}> = ({ data, onDataUpdate, onSave, isSaving }) => {
+}> = ({ data, isManualEntry, confidence, onDataUpdate, onSave, onDiscard, isSaving }) => {
+  const [values, setValues] = useState<VinylFormValues>(() => toFormValues(data));
+  const [errors, setErrors] = useState<VinylFormErrors>({});
+  // Fields the user has touched are no longer OCR guesses
+  const [editedFields, setEditedFields] = useState<Set<keyof VinylFormValues>>(new Set());
+
+  const handleChange = (next: VinylFormValues) => {
+    const changed = (Object.keys(next) as Array<keyof VinylFormValues>).filter(
+      key => next[key] !== values[key]
+    );
+    setEditedFields(prev => new Set([...prev, ...changed]));
+    setValues(next);
+    onDataUpdate(fromFormValues(next));
+
+    // Re-validate as the user fixes fields once errors are showing
+    if (hasFormErrors(errors)) {
+      setErrors(validateVinylForm(next));
+    }
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateVinylForm(values);
+    setErrors(validationErrors);
+    if (hasFormErrors(validationErrors)) {
+      Alert.alert('Check Details', 'Please fix the highlighted fields before saving');
+      return;
+    }
+    onSave();
+  };
+
+  const badgeFor = (field: keyof FieldConfidence & keyof VinylFormValues) =>
+    !editedFields.has(field) && values[field] ? (
+      <ConfidenceBadge confidence={confidence[field]} />
+    ) : null;
+
   return (
     <View>
-      <Text style={styles.sectionTitle}>Extracted Data</Text>
+      <Text style={styles.sectionTitle}>
+        {isManualEntry ? 'Record Details' : 'Extracted Data'}
+      </Text>
       <Text style={styles.infoText}>
-        Note: OCR functionality requires cloud integration
+        {isManualEntry
+          ? 'Enter the details printed on the label and sleeve.'
+          : 'Review and correct the recognized text before saving. Fields marked "Guess" were inferred from the label layout and may be wrong.'}
       </Text>
 
+      <VinylDataForm
+        values={values}
+        onChange={handleChange}
+        errors={errors}
+        badges={{
+          artistName: badgeFor('artistName'),
+          albumName: badgeFor('albumName'),
+          serialNumber: badgeFor('serialNumber'),
+          label: badgeFor('label'),
+        }}
+      />
+
       <Button
-        onPress={onSave}
+        onPress={handleSave}
         title={isSaving ? "Saving..." : "Save to Collection"}
         disabled={isSaving}
         loading={isSaving}
         style={styles.saveButton}
       />
+
+      {isManualEntry && (
+        <Button
+          onPress={onDiscard}
+          title="Discard"
+          variant="outline"
+          disabled={isSaving}
+          style={styles.discardButton}
+        />
+      )}
     </View>
   );
 };
@@ -289,7 +393,29 @@ const styles = StyleSheet.create({
     color: '#999',
     marginBottom: 16,
   },
+  confidenceBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  confidenceHigh: {
+    backgroundColor: '#1f4d2e',
+  },
+  confidenceLow: {
+    backgroundColor: '#5c4a1a',
+  },
+  confidenceText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#e8e8e8',
+  },
   saveButton: {
     marginTop: 8,
   },
+  discardButton: {
+    marginTop: 12,
+  },
+  manualButton: {
+    marginTop: 12,
+  },
 });
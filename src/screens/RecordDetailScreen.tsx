@@ -0,0 +1,471 @@
+import React, { useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  Alert,
+  Linking,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Card, Button } from '../components/ui';
+import { AlbumCover } from '../components/AlbumCover';
+import { VinylDataForm } from '../components/VinylDataForm';
+import { VinylData, VinylRecord } from '../types';
+import {
+  toFormValues,
+  fromFormValues,
+  validateVinylForm,
+  hasFormErrors,
+} from '../utils/vinylForm';
+import type { VinylFormValues, VinylFormErrors } from '../utils/vinylForm';
+import { estimatedValue, formatPrice } from '../utils/valuation';
+
+interface RecordDetailScreenProps {
+  record: VinylRecord | undefined;
+  onUpdate: (id: string, updates: Partial<VinylData>) => Promise<boolean>;
+  onSetDiscogsSync: (id: string, enabled: boolean) => Promise<boolean>;
+  onValuate: (id: string) => Promise<boolean>;
+  onDelete: (id: string) => void;
+}
+
+export const RecordDetailScreen: React.FC<RecordDetailScreenProps> = ({
+  record,
+  onUpdate,
+  onSetDiscogsSync,
+  onValuate,
+  onDelete,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isValuing, setIsValuing] = useState(false);
+  const [values, setValues] = useState<VinylFormValues | null>(null);
+  const [errors, setErrors] = useState<VinylFormErrors>({});
+
+  if (!record) {
+    return (
+      <View style={styles.container}>
+        <Card style={styles.missingCard}>
+          <Text style={styles.missingText}>This record is no longer in your collection.</Text>
+        </Card>
+      </View>
+    );
+  }
+
+  const startEditing = () => {
+    setValues(toFormValues(record));
+    setErrors({});
+    setIsEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+    setValues(null);
+    setErrors({});
+  };
+
+  const handleChange = (next: VinylFormValues) => {
+    setValues(next);
+    if (hasFormErrors(errors)) {
+      setErrors(validateVinylForm(next));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!values) return;
+
+    const validationErrors = validateVinylForm(values);
+    setErrors(validationErrors);
+    if (hasFormErrors(validationErrors)) {
+      Alert.alert('Check Details', 'Please fix the highlighted fields before saving');
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onUpdate(record.id, fromFormValues(values));
+    setIsSaving(false);
+
+    if (saved) {
+      cancelEditing();
+    }
+  };
+
+  const handleValuate = async () => {
+    setIsValuing(true);
+    await onValuate(record.id);
+    setIsValuing(false);
+  };
+
+  const handleSetSync = async (enabled: boolean) => {
+    setIsSyncing(true);
+    await onSetDiscogsSync(record.id, enabled);
+    setIsSyncing(false);
+  };
+
+  const handleDelete = () => {
+    const syncNote =
+      record.syncToDiscogs && record.discogsInstanceId !== undefined
+        ? '\n\nIt will also be removed from your Discogs collection.'
+        : '';
+    Alert.alert(
+      'Delete Record',
+      `Are you sure you want to delete "${record.albumName}" by ${record.artistName}?${syncNote}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => onDelete(record.id),
+        },
+      ]
+    );
+  };
+
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  if (isEditing && values) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <Card>
+          <Text style={styles.sectionTitle}>Edit Record</Text>
+          <VinylDataForm values={values} onChange={handleChange} errors={errors} />
+
+          <Button
+            onPress={handleSave}
+            title={isSaving ? 'Saving...' : 'Save Changes'}
+            disabled={isSaving}
+            loading={isSaving}
+          />
+          <Button
+            onPress={cancelEditing}
+            title="Cancel"
+            variant="outline"
+            disabled={isSaving}
+            style={styles.secondaryButton}
+          />
+        </Card>
+      </ScrollView>
+    );
+  }
+
+  const details: Array<{ label: string; value?: string }> = [
+    { label: 'Artist', value: record.artistName },
+    { label: 'Album', value: record.albumName },
+    { label: 'Year', value: record.year?.toString() },
+    { label: 'Label', value: record.label },
+    { label: 'Catalog Number', value: record.serialNumber },
+    { label: 'Format', value: record.format },
+    { label: 'Country', value: record.country },
+    { label: 'Genre', value: record.genre?.join(', ') },
+    { label: 'Style', value: record.style?.join(', ') },
+    { label: 'Media Condition', value: record.mediaCondition },
+    { label: 'Sleeve Condition', value: record.sleeveCondition },
+  ];
+
+  // Newest first, each with its change from the snapshot before it
+  const valuations = (record.valuations || [])
+    .map((snapshot, index, all) => {
+      const value = estimatedValue(snapshot);
+      const previous = index > 0 ? all[index - 1] : null;
+      const previousValue = estimatedValue(previous);
+      const change =
+        value !== null && previousValue !== null && previous?.currency === snapshot.currency
+          ? value - previousValue
+          : null;
+      return { snapshot, value, change };
+    })
+    .reverse();
+  const latest = valuations[0];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.coverContainer}>
+        <AlbumCover
+          artistName={record.artistName}
+          albumName={record.albumName}
+          uploadedImageUrl={record.imageUrl}
+          size={240}
+        />
+      </View>
+
+      <Card style={styles.card}>
+        {details
+          .filter(detail => detail.value)
+          .map(detail => (
+            <View key={detail.label} style={styles.infoItem}>
+              <Text style={styles.infoLabel}>{detail.label}</Text>
+              <Text style={styles.infoValue}>{detail.value}</Text>
+            </View>
+          ))}
+      </Card>
+
+      {record.matrixRunout.length > 0 && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Matrix / Runout</Text>
+          {record.matrixRunout.map((entry, index) => (
+            <View key={index} style={styles.infoItem}>
+              <Text style={styles.infoLabel}>
+                {[entry.side && `Side ${entry.side}`, entry.method !== 'unknown' && entry.method]
+                  .filter(Boolean)
+                  .join(' · ') || 'Runout'}
+              </Text>
+              <Text style={styles.matrixText}>{entry.text}</Text>
+              {entry.description && (
+                <Text style={styles.matrixDescription}>{entry.description}</Text>
+              )}
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {record.discogsId !== undefined && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Value</Text>
+          {latest ? (
+            <View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>
+                  {latest.snapshot.suggestedPrice !== null
+                    ? `Suggested price (${latest.snapshot.condition})`
+                    : record.mediaCondition
+                    ? 'Lowest listing (no suggestion for this condition)'
+                    : 'Lowest listing (grade the record for a suggested price)'}
+                </Text>
+                <Text style={styles.valueText}>
+                  {latest.value !== null
+                    ? formatPrice(latest.value, latest.snapshot.currency)
+                    : 'No price available'}
+                </Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Marketplace</Text>
+                <Text style={styles.infoValue}>
+                  {latest.snapshot.numForSale} for sale
+                  {latest.snapshot.lowestPrice !== null
+                    ? ` from ${formatPrice(latest.snapshot.lowestPrice, latest.snapshot.currency)}`
+                    : ''}
+                </Text>
+              </View>
+
+              {valuations.length > 1 && (
+                <View style={styles.infoItem}>
+                  <Text style={styles.infoLabel}>History</Text>
+                  {valuations.map(({ snapshot, value, change }) => (
+                    <View key={snapshot.valuedAt} style={styles.historyRow}>
+                      <Text style={styles.historyDate}>{formatDateTime(snapshot.valuedAt)}</Text>
+                      <Text style={styles.infoValue}>
+                        {value !== null ? formatPrice(value, snapshot.currency) : '—'}
+                        {change !== null && Math.abs(change) >= 0.01 && (
+                          <Text style={change > 0 ? styles.changeUp : styles.changeDown}>
+                            {' '}
+                            {change > 0 ? '▲' : '▼'}
+                            {formatPrice(Math.abs(change), snapshot.currency)}
+                          </Text>
+                        )}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+          ) : (
+            <Text style={styles.valueHint}>Not valued yet.</Text>
+          )}
+          <Button
+            onPress={handleValuate}
+            title={isValuing ? 'Updating...' : 'Update Value'}
+            variant="outline"
+            disabled={isValuing}
+            loading={isValuing}
+            style={styles.valueButton}
+          />
+        </Card>
+      )}
+
+      <Card style={styles.card}>
+        {record.discogsUrl && (
+          <TouchableOpacity
+            style={styles.infoItem}
+            onPress={() => Linking.openURL(record.discogsUrl!)}
+          >
+            <Text style={styles.infoLabel}>Discogs</Text>
+            <Text style={styles.linkText}>View release #{record.discogsId} on Discogs ↗</Text>
+          </TouchableOpacity>
+        )}
+        {record.discogsId !== undefined && (
+          <View style={styles.infoItem}>
+            <View style={styles.syncRow}>
+              <View style={styles.syncLabel}>
+                <Text style={styles.infoLabel}>Sync to Discogs</Text>
+                <Text style={styles.syncHint}>
+                  {!record.syncToDiscogs
+                    ? 'Mirror adding and deleting this record in your Discogs collection'
+                    : record.discogsInstanceId === undefined
+                    ? 'Not in your Discogs collection yet'
+                    : 'Deleting this record removes it from Discogs too'}
+                </Text>
+              </View>
+              {isSyncing ? (
+                <ActivityIndicator color="#4a9eff" />
+              ) : (
+                <Switch
+                  value={!!record.syncToDiscogs}
+                  onValueChange={handleSetSync}
+                  trackColor={{ false: '#333', true: '#4a9eff' }}
+                />
+              )}
+            </View>
+            {record.syncToDiscogs && record.discogsInstanceId === undefined && !isSyncing && (
+              <Button
+                onPress={() => handleSetSync(true)}
+                title="Add to Discogs Collection"
+                variant="outline"
+                style={styles.syncRetryButton}
+              />
+            )}
+          </View>
+        )}
+        {record.discogsInstanceId !== undefined && (
+          <View style={styles.infoItem}>
+            <Text style={styles.infoLabel}>Discogs Collection</Text>
+            <Text style={styles.infoValue}>
+              Copy #{record.discogsInstanceId} in folder #{record.discogsFolderId}
+            </Text>
+          </View>
+        )}
+        <View style={styles.infoItem}>
+          <Text style={styles.infoLabel}>Added</Text>
+          <Text style={styles.infoValue}>{formatDateTime(record.createdAt)}</Text>
+        </View>
+        <View style={styles.infoItem}>
+          <Text style={styles.infoLabel}>Last Updated</Text>
+          <Text style={styles.infoValue}>{formatDateTime(record.updatedAt)}</Text>
+        </View>
+      </Card>
+
+      <Button onPress={startEditing} title="Edit Record" />
+      <Button
+        onPress={handleDelete}
+        title="Delete Record"
+        variant="destructive"
+        style={styles.secondaryButton}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  coverContainer: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 12,
+  },
+  infoItem: {
+    marginBottom: 12,
+  },
+  infoLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  infoValue: {
+    fontSize: 16,
+    color: '#e8e8e8',
+  },
+  matrixText: {
+    fontSize: 16,
+    color: '#e8e8e8',
+    fontFamily: 'monospace',
+  },
+  matrixDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#4a9eff',
+  },
+  secondaryButton: {
+    marginTop: 12,
+  },
+  missingCard: {
+    margin: 16,
+    padding: 32,
+    alignItems: 'center',
+  },
+  missingText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  syncLabel: {
+    flex: 1,
+  },
+  syncHint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  syncRetryButton: {
+    marginTop: 8,
+  },
+  valueText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#e8e8e8',
+  },
+  valueHint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  valueButton: {
+    marginTop: 8,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  historyDate: {
+    fontSize: 13,
+    color: '#999',
+  },
+  changeUp: {
+    color: '#22c55e',
+  },
+  changeDown: {
+    color: '#ef4444',
+  },
+});
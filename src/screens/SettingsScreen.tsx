@@ -0,0 +1,477 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  Alert,
+  Linking,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Card, Button, Input } from '../components/ui';
+import { DiscogsImportCard } from '../components/DiscogsImportCard';
+import { CollectionCsvCard } from '../components/CollectionCsvCard';
+import { BackupCard } from '../components/BackupCard';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
+import { discogsAccount } from '../utils/discogsAccount';
+import { discogsAPI } from '../utils/discogs';
+import { appSettings, AppSettings } from '../utils/settings';
+import { recordStore, RecordStoreStatus } from '../utils/recordStore';
+import type { CacheStats } from '../utils/discogsCache';
+
+const DEVELOPER_SETTINGS_URL = 'https://www.discogs.com/settings/developers';
+
+interface SettingsScreenProps {
+  // Reload the collection after records were imported
+  onCollectionChanged: () => void;
+  onImportCsv: () => void;
+  onRestoreBackup: () => void;
+}
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  onCollectionChanged,
+  onImportCsv,
+  onRestoreBackup,
+}) => {
+  const account = useDiscogsAccount();
+  const [token, setToken] = useState('');
+  const [tokenError, setTokenError] = useState<string | undefined>();
+  const [isValidating, setIsValidating] = useState(false);
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [preferences, setPreferences] = useState<AppSettings | null>(null);
+  const [storeStatus, setStoreStatus] = useState<RecordStoreStatus | null>(null);
+
+  useEffect(() => {
+    appSettings.get().then(setPreferences);
+  }, []);
+
+  const handleToggleSync = async (enabled: boolean) => {
+    try {
+      setPreferences(await appSettings.update({ syncNewRecordsToDiscogs: enabled }));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save setting');
+    }
+  };
+
+  const loadCacheStats = async () => {
+    try {
+      setCacheStats(await discogsAPI.getCacheStats());
+    } catch (error) {
+      console.error('Error reading cache stats:', error);
+    }
+  };
+
+  const loadStoreStatus = async () => {
+    try {
+      setStoreStatus(await recordStore.getStatus());
+    } catch (error) {
+      console.error('Error reading stored data status:', error);
+    }
+  };
+
+  // Cache grows while browsing other tabs, so refresh whenever shown
+  useFocusEffect(
+    useCallback(() => {
+      loadCacheStats();
+      loadStoreStatus();
+    }, [])
+  );
+
+  const handleSaveToken = async () => {
+    setIsValidating(true);
+    setTokenError(undefined);
+    try {
+      const username = await discogsAccount.signInWithToken(token);
+      setToken('');
+      Alert.alert('Connected', `Signed in to Discogs as ${username}`);
+    } catch (error) {
+      console.error('Error validating token:', error);
+      setTokenError(
+        error instanceof Error && error.message.includes('401')
+          ? 'Discogs rejected this token. Check that it was copied completely.'
+          : error instanceof Error
+          ? error.message
+          : 'Failed to validate token'
+      );
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleOAuthSignIn = async () => {
+    setIsAuthorizing(true);
+    try {
+      const username = await discogsAccount.signInWithOAuth();
+      if (username) {
+        Alert.alert('Connected', `Signed in to Discogs as ${username}`);
+      }
+    } catch (error) {
+      console.error('Error signing in with Discogs:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to sign in with Discogs'
+      );
+    } finally {
+      setIsAuthorizing(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    Alert.alert(
+      'Disconnect Discogs',
+      'Remove your Discogs credentials from this device?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discogsAccount.signOut();
+            } catch (error) {
+              console.error('Error signing out:', error);
+              Alert.alert('Error', 'Failed to remove Discogs credentials');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClearCache = () => {
+    Alert.alert(
+      'Clear Cache',
+      'Previously viewed releases and searches will need a connection to load again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discogsAPI.clearCache();
+              await loadCacheStats();
+            } catch (error) {
+              console.error('Error clearing cache:', error);
+              Alert.alert('Error', 'Failed to clear cache');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreBackup = () => {
+    Alert.alert(
+      'Restore Backup',
+      'Put your collection back as it was before the last data upgrade? Records added or changed since then will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await recordStore.restoreBackup();
+              onCollectionChanged();
+              await loadStoreStatus();
+            } catch (error) {
+              console.error('Error restoring backup:', error);
+              Alert.alert(
+                'Error',
+                error instanceof Error ? error.message : 'Failed to restore backup'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDiscardBackup = async () => {
+    try {
+      await recordStore.discardBackup();
+      await loadStoreStatus();
+    } catch (error) {
+      console.error('Error deleting backup:', error);
+      Alert.alert('Error', 'Failed to delete backup');
+    }
+  };
+
+  const handleClearQuarantine = () => {
+    Alert.alert(
+      'Discard Unreadable Entries',
+      'These entries could not be read as records. Delete them for good?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await recordStore.clearQuarantine();
+              await loadStoreStatus();
+            } catch (error) {
+              console.error('Error discarding entries:', error);
+              Alert.alert('Error', 'Failed to discard entries');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.title}>Settings</Text>
+
+      {/* Discogs Account */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Discogs Account</Text>
+
+        {account.status === 'signedIn' ? (
+          <View>
+            <Text style={styles.infoText}>
+              Signed in as <Text style={styles.username}>{account.username}</Text>
+              {account.method === 'oauth' ? ' with Discogs' : ' with a personal access token'}
+            </Text>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.switchTitle}>Add new records to Discogs</Text>
+                <Text style={styles.switchHint}>
+                  Releases you add are also added to your Discogs collection, and deleting
+                  them removes them there. Can be changed per record.
+                </Text>
+              </View>
+              <Switch
+                value={!!preferences?.syncNewRecordsToDiscogs}
+                onValueChange={handleToggleSync}
+                disabled={!preferences}
+                trackColor={{ false: '#333', true: '#4a9eff' }}
+              />
+            </View>
+            <Button onPress={handleSignOut} title="Disconnect" variant="destructive" />
+          </View>
+        ) : (
+          <View>
+            {discogsAccount.isOAuthAvailable() && (
+              <View>
+                <Text style={styles.infoText}>
+                  Sign in through the Discogs website to search Discogs and add releases
+                  to your collection.
+                </Text>
+                <Button
+                  onPress={handleOAuthSignIn}
+                  title="Sign in with Discogs"
+                  disabled={isAuthorizing || isValidating || account.status === 'loading'}
+                  loading={isAuthorizing}
+                />
+                <Text style={styles.dividerText}>or</Text>
+              </View>
+            )}
+
+            <Text style={styles.infoText}>
+              Paste a personal access token to search Discogs and add releases to your
+              collection. The token is stored securely on this device.
+            </Text>
+            <TouchableOpacity onPress={() => Linking.openURL(DEVELOPER_SETTINGS_URL)}>
+              <Text style={styles.linkText}>Generate a token on Discogs ↗</Text>
+            </TouchableOpacity>
+
+            <Input
+              label="Personal Access Token"
+              value={token}
+              onChangeText={text => {
+                setToken(text);
+                setTokenError(undefined);
+              }}
+              error={tokenError}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+              onSubmitEditing={handleSaveToken}
+            />
+            <Button
+              onPress={handleSaveToken}
+              title="Validate & Save"
+              disabled={
+                isValidating || isAuthorizing || !token.trim() || account.status === 'loading'
+              }
+              loading={isValidating}
+            />
+          </View>
+        )}
+      </Card>
+
+      {/* Collection Import */}
+      {account.status === 'signedIn' && account.username && (
+        <DiscogsImportCard
+          username={account.username}
+          onCollectionChanged={onCollectionChanged}
+        />
+      )}
+
+      {/* CSV Import / Export */}
+      <CollectionCsvCard onImport={onImportCsv} />
+
+      {/* Backup / Restore */}
+      <BackupCard onRestore={onRestoreBackup} />
+
+      {/* Discogs Cache */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Discogs Cache</Text>
+        <Text style={styles.infoText}>
+          {cacheStats
+            ? `${cacheStats.byResource.release} releases, ${cacheStats.byResource.master} masters and ${cacheStats.byResource.search} searches cached for offline use.`
+            : 'Cached Discogs data lets previously viewed releases load offline.'}
+        </Text>
+        <Button
+          onPress={handleClearCache}
+          title="Clear Cache"
+          variant="outline"
+          disabled={!cacheStats || cacheStats.entries === 0}
+        />
+      </Card>
+
+      {/* Stored Data */}
+      {storeStatus && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Stored Data</Text>
+          <Text style={styles.infoText}>
+            Collection data format version {storeStatus.schemaVersion}.
+          </Text>
+
+          {storeStatus.quarantined.length > 0 && (
+            <View style={styles.storeSection}>
+              <Text style={styles.warningText}>
+                {storeStatus.quarantined.length}{' '}
+                {storeStatus.quarantined.length === 1 ? 'entry' : 'entries'} couldn't be read
+                as records and {storeStatus.quarantined.length === 1 ? 'was' : 'were'} set
+                aside:
+              </Text>
+              {storeStatus.quarantined.slice(0, 5).map(entry => (
+                <Text key={entry.key} style={styles.switchHint} numberOfLines={1}>
+                  • {entry.key}: {entry.reason}
+                </Text>
+              ))}
+              <Button
+                onPress={handleClearQuarantine}
+                title="Discard Unreadable Entries"
+                variant="destructive"
+                style={styles.storeButton}
+              />
+            </View>
+          )}
+
+          {storeStatus.backup ? (
+            <View>
+              <Text style={styles.infoText}>
+                A backup of {storeStatus.backup.recordCount}{' '}
+                {storeStatus.backup.recordCount === 1 ? 'record' : 'records'} from before the
+                last data upgrade (
+                {new Date(storeStatus.backup.createdAt).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+                ) is kept on this device.
+              </Text>
+              <Button onPress={handleRestoreBackup} title="Restore Backup" variant="outline" />
+              <TouchableOpacity onPress={handleDiscardBackup}>
+                <Text style={styles.discardText}>Delete Backup</Text>
+              </TouchableOpacity>
+            </View>
+          ) : null}
+        </Card>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#e8e8e8',
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  username: {
+    color: '#e8e8e8',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  switchTitle: {
+    fontSize: 14,
+    color: '#e8e8e8',
+    marginBottom: 2,
+  },
+  switchHint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  dividerText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#4a9eff',
+    marginBottom: 16,
+  },
+  storeSection: {
+    marginBottom: 16,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#f59e0b',
+    marginBottom: 8,
+  },
+  storeButton: {
+    marginTop: 12,
+  },
+  discardText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
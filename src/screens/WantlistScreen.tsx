@@ -0,0 +1,289 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Card, Button } from '../components/ui';
+import { AlbumCover } from '../components/AlbumCover';
+import { useWantlist } from '../hooks/useWantlist';
+import { useDiscogsAccount } from '../hooks/useDiscogsAccount';
+import { wantlist } from '../utils/wantlist';
+import { WantlistItem } from '../types';
+
+// Sync automatically when the tab is shown if the last sync is older than this
+const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+interface WantlistScreenProps {
+  // Add the release to the collection; resolves false if that failed
+  onPurchased: (item: WantlistItem) => Promise<boolean>;
+}
+
+export const WantlistScreen: React.FC<WantlistScreenProps> = ({ onPurchased }) => {
+  const { status, items, lastSyncedAt, error } = useWantlist();
+  const isSignedIn = useDiscogsAccount().status === 'signedIn';
+
+  const syncWantlist = async (showErrors: boolean) => {
+    try {
+      await wantlist.sync();
+    } catch (error) {
+      if (showErrors) {
+        Alert.alert(
+          'Sync Failed',
+          error instanceof Error ? error.message : 'Failed to sync wantlist with Discogs'
+        );
+      }
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      const { status: current, lastSyncedAt: last } = wantlist.getState();
+      if (
+        isSignedIn &&
+        current === 'idle' &&
+        (last === null || Date.now() - last > AUTO_SYNC_INTERVAL_MS)
+      ) {
+        syncWantlist(false);
+      }
+    }, [isSignedIn])
+  );
+
+  const handlePurchased = (item: WantlistItem) => {
+    Alert.alert(
+      'Got It',
+      `Move "${item.albumName}" from your wantlist into your collection?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Move',
+          onPress: async () => {
+            if (await onPurchased(item)) {
+              await wantlist.remove(item.discogsId).catch(error => {
+                console.error('Error removing want:', error);
+              });
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemove = (item: WantlistItem) => {
+    Alert.alert('Remove Want', `Remove "${item.albumName}" from your wantlist?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await wantlist.remove(item.discogsId);
+          } catch (error) {
+            console.error('Error removing want:', error);
+            Alert.alert('Error', 'Failed to remove from wantlist');
+          }
+        },
+      },
+    ]);
+  };
+
+  const syncText = !isSignedIn
+    ? 'Sign in to Discogs in Settings to sync with your Discogs wantlist'
+    : status === 'syncing'
+    ? 'Syncing with Discogs…'
+    : lastSyncedAt
+    ? `Synced with Discogs ${new Date(lastSyncedAt).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`
+    : 'Not synced with Discogs yet';
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl
+          refreshing={status === 'syncing'}
+          onRefresh={() => (isSignedIn ? syncWantlist(true) : undefined)}
+          enabled={isSignedIn}
+          tintColor="#4a9eff"
+        />
+      }
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>Wantlist</Text>
+        <Text style={styles.subtitle}>
+          {items.length} {items.length === 1 ? 'release' : 'releases'} wanted
+        </Text>
+        <Text style={styles.syncText}>{syncText}</Text>
+        {error && status !== 'syncing' && <Text style={styles.errorText}>{error}</Text>}
+      </View>
+
+      {/* Empty State */}
+      {status !== 'loading' && items.length === 0 && (
+        <Card style={styles.emptyCard}>
+          <Text style={styles.emptyIcon}>🔎</Text>
+          <Text style={styles.emptyTitle}>Nothing Wanted Yet</Text>
+          <Text style={styles.emptyText}>
+            Tap "Want" on a search result to keep track of records you're hunting for
+          </Text>
+        </Card>
+      )}
+
+      {/* Wanted Releases */}
+      {items.map(item => (
+        <Card key={item.discogsId} style={styles.itemCard}>
+          <View style={styles.itemContent}>
+            <AlbumCover
+              artistName={item.artistName}
+              albumName={item.albumName}
+              uploadedImageUrl={item.imageUrl}
+              size={80}
+            />
+
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemTitle} numberOfLines={2}>
+                {item.albumName}
+              </Text>
+              {item.artistName ? (
+                <Text style={styles.itemArtist} numberOfLines={1}>
+                  {item.artistName}
+                </Text>
+              ) : null}
+              <Text style={styles.itemDetail} numberOfLines={1}>
+                {[item.year, item.format, item.label, item.catno].filter(Boolean).join(' · ')}
+              </Text>
+              {item.notes ? (
+                <Text style={styles.itemDetail} numberOfLines={2}>
+                  {item.notes}
+                </Text>
+              ) : null}
+              {!item.synced && isSignedIn && (
+                <Text style={styles.pendingText}>Not on Discogs yet</Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.actionRow}>
+            <Button
+              onPress={() => handlePurchased(item)}
+              title="Got It"
+              style={styles.actionButton}
+            />
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+              <Text style={styles.removeButtonText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </Card>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#212121',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#e8e8e8',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 4,
+  },
+  syncText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  itemCard: {
+    marginBottom: 12,
+  },
+  itemContent: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e8e8e8',
+    marginBottom: 2,
+  },
+  itemArtist: {
+    fontSize: 14,
+    color: '#e8e8e8',
+    marginBottom: 4,
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 2,
+  },
+  pendingText: {
+    fontSize: 12,
+    color: '#f59e0b',
+    marginTop: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  removeButton: {
+    paddingVertical: 8,
+  },
+  removeButtonText: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+});
@@ -1,8 +1,47 @@
+// How a matrix was applied to the runout groove
+export type MatrixMethod = 'etched' | 'stamped' | 'unknown';
+
+// One inscription in the runout area: the side's matrix number or an extra
+// etching such as a mastering engineer signature or plant code
+export interface MatrixRunout {
+  side: string;
+  text: string;
+  method: MatrixMethod;
+  description?: string;
+}
+
+// Discogs media grading scale (Goldmine standard), best to worst
+export type MediaCondition =
+  | 'Mint (M)'
+  | 'Near Mint (NM or M-)'
+  | 'Very Good Plus (VG+)'
+  | 'Very Good (VG)'
+  | 'Good Plus (G+)'
+  | 'Good (G)'
+  | 'Fair (F)'
+  | 'Poor (P)';
+
+// Sleeves use the same scale plus a few sleeve-only states
+export type SleeveCondition = MediaCondition | 'Generic' | 'Not Graded' | 'No Cover';
+
+// Market value of a record at one point in time (see utils/valuation.ts)
+export interface ValuationSnapshot {
+  valuedAt: number;
+  currency: string;
+  // Discogs price suggestion for the graded media condition; null when the
+  // record isn't graded or Discogs has no suggestion
+  suggestedPrice: number | null;
+  condition: MediaCondition | null;
+  // Cheapest copy listed on the marketplace, null when none are for sale
+  lowestPrice: number | null;
+  numForSale: number;
+}
+
 export interface VinylData {
   artistName: string;
   albumName: string;
   serialNumber: string;
-  matrixRunout: string;
+  matrixRunout: MatrixRunout[];
   // Optional Discogs metadata
   year?: number;
   country?: string;
@@ -12,6 +51,17 @@ export interface VinylData {
   format?: string;
   discogsId?: number;
   discogsUrl?: string;
+  // Where the record lives in the user's Discogs collection (set by import)
+  discogsFolderId?: number;
+  discogsInstanceId?: number;
+  // Mirror adding and deleting this record to the Discogs collection
+  syncToDiscogs?: boolean;
+  // Condition the user graded their copy at
+  mediaCondition?: MediaCondition;
+  sleeveCondition?: SleeveCondition;
+  // ID of the record this was knowingly added as a second copy of, so it
+  // isn't reported as a duplicate (see utils/duplicates.ts)
+  copyOf?: string;
 }
 
 export interface VinylRecord extends VinylData {
@@ -19,4 +69,44 @@ export interface VinylRecord extends VinylData {
   imageUrl: string | null;
   createdAt: number;
   updatedAt: number;
+  // Valuation history, oldest first
+  valuations?: ValuationSnapshot[];
+}
+
+// A release the user is looking for. Discogs keeps one want per release,
+// so items are keyed by discogsId.
+export interface WantlistItem {
+  discogsId: number;
+  artistName: string;
+  albumName: string;
+  year?: number;
+  label?: string;
+  format?: string;
+  catno?: string;
+  imageUrl: string | null;
+  notes?: string;
+  addedAt: number;
+  // False until the want has been added on Discogs
+  synced: boolean;
 }
+
+// Screens inside the Collection tab's stack navigator
+export type CollectionStackParamList = {
+  CollectionList: undefined;
+  RecordDetail: { recordId: string };
+  CollectionStats: undefined;
+  Duplicates: undefined;
+};
+
+// Screens inside the Search tab's stack navigator
+export type SearchStackParamList = {
+  DiscogsSearch: undefined;
+  BarcodeScan: undefined;
+};
+
+// Screens inside the Settings tab's stack navigator
+export type SettingsStackParamList = {
+  SettingsHome: undefined;
+  CsvImport: undefined;
+  BackupRestore: undefined;
+};
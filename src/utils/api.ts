@@ -2,7 +2,11 @@
 // ASYNC STORAGE API - React Native implementation
 // ============================================================================
 // This file handles storing vinyl records in React Native's AsyncStorage.
-// It's separate from the Discogs API integration.
+// It's separate from the Discogs API integration. Records are kept one per
+// key with an index (see recordStore.ts), so each call only reads and
+// writes the records it touches. Changes run as store transactions, so
+// concurrent calls (an import page, a delete, a Discogs sync finishing)
+// can't overwrite each other's updates.
 //
 // DISCOGS INTEGRATION:
 // When a user selects a release from Discogs (via DiscogsSearch component),
@@ -10,105 +14,251 @@
 // - discogsId: The Discogs release ID
 // - discogsUrl: Link to the release on Discogs
 // - year, country, genre, style, label, format: Metadata from Discogs
+// - discogsFolderId, discogsInstanceId: Set when imported from the user's
+//   Discogs collection (see discogsImport.ts) or synced to it
+//
+// Records with syncToDiscogs set are added to / removed from the user's
+// Discogs collection by createRecord() and deleteRecord() (discogsSync.ts).
 // ============================================================================
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { VinylData, VinylRecord } from '../types';
-
-const STORAGE_KEY = 'vinyl_records';
+import type { VinylData, VinylRecord, ValuationSnapshot } from '../types';
+import type { ImportedRecordInput, NewRecordInput } from './discogsMapping';
+import { addRecordToDiscogs, removeRecordFromDiscogs } from './discogsSync';
+import { mergeFields } from './duplicates';
+import { recordStore } from './recordStore';
 
-// Helper to get records from AsyncStorage
-async function getStoredRecords(): Promise<VinylRecord[]> {
-  try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error('Error reading from AsyncStorage:', error);
-    return [];
-  }
-}
+// Valuation snapshots kept per record (about two years of monthly updates)
+const MAX_VALUATIONS = 24;
+// Records saved per transaction when restoring a backup
+const RESTORE_BATCH_SIZE = 50;
 
-// Helper to save records to AsyncStorage
-async function saveRecords(records: VinylRecord[]): Promise<void> {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(records));
-  } catch (error) {
-    console.error('Error saving to AsyncStorage:', error);
-    throw new Error('Failed to save data');
-  }
+// Helper to build a new record with a fresh ID
+function buildRecord(record: NewRecordInput, now: number): VinylRecord {
+  return {
+    id: `record_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    artistName: record.artistName || '',
+    albumName: record.albumName || '',
+    serialNumber: record.serialNumber || '',
+    matrixRunout: record.matrixRunout || [],
+    imageUrl: record.imageUrl || null,
+    // DISCOGS DATA: These optional fields come from Discogs API
+    // They're populated when user adds a vinyl from Discogs search results
+    year: record.year,
+    country: record.country,
+    genre: record.genre,
+    style: record.style,
+    label: record.label,
+    format: record.format,
+    discogsId: record.discogsId,
+    discogsUrl: record.discogsUrl,
+    discogsFolderId: record.discogsFolderId,
+    discogsInstanceId: record.discogsInstanceId,
+    syncToDiscogs: record.syncToDiscogs,
+    mediaCondition: record.mediaCondition,
+    sleeveCondition: record.sleeveCondition,
+    copyOf: record.copyOf,
+    createdAt: now,
+    updatedAt: now,
+  };
 }
 
 export const api = {
-  // Get all vinyl records
+  // Get all vinyl records. Throws if the collection can't be read, rather
+  // than returning an empty list.
   async getRecords(): Promise<VinylRecord[]> {
-    return getStoredRecords();
+    return recordStore.getAll();
   },
 
   // Get a single record
   async getRecord(id: string): Promise<VinylRecord> {
-    const records = await getStoredRecords();
-    const record = records.find(r => r.id === id);
+    const record = await recordStore.get(id);
     if (!record) {
       throw new Error('Record not found');
     }
     return record;
   },
 
-  // Create a new record
-  async createRecord(record: Partial<VinylData> & { imageUrl?: string }): Promise<VinylRecord> {
-    const records = await getStoredRecords();
+  // Get every record of the given Discogs releases
+  async getRecordsByDiscogsIds(discogsIds: number[]): Promise<VinylRecord[]> {
+    return recordStore.getByDiscogsIds(discogsIds);
+  },
+
+  // Create a new record. A failed Discogs sync doesn't fail the local save:
+  // the record is returned without a discogsInstanceId and can be synced
+  // again with setDiscogsSync().
+  async createRecord(record: NewRecordInput): Promise<VinylRecord> {
+    const newRecord = buildRecord(record, Date.now());
+    await recordStore.transaction(async tx => tx.put(newRecord));
+
+    if (!newRecord.syncToDiscogs || !newRecord.discogsId) {
+      return newRecord;
+    }
+
+    try {
+      const instance = await addRecordToDiscogs(newRecord);
+      return await this.updateRecord(newRecord.id, instance);
+    } catch (error) {
+      console.warn('Error adding record to Discogs collection:', error);
+      return newRecord;
+    }
+  },
+
+  // Create and update many records in a single batch (used by the importers)
+  async importRecords(batch: {
+    create: ImportedRecordInput[];
+    update: Array<{ id: string; updates: Partial<VinylData> & { imageUrl?: string } }>;
+  }): Promise<void> {
     const now = Date.now();
+    const updates = new Map(batch.update.map(({ id, updates }) => [id, updates]));
+
+    await recordStore.transaction(async tx => {
+      const existing = await tx.getMany([...updates.keys()]);
+      existing.forEach(record => tx.put({ ...record, ...updates.get(record.id), updatedAt: now }));
+      const created: VinylRecord[] = [];
+      batch.create.forEach(({ copyOfCreated, ...record }) => {
+        const copyOf = copyOfCreated === undefined ? record.copyOf : created[copyOfCreated]?.id;
+        const newRecord = buildRecord({ ...record, copyOf }, now);
+        created.push(newRecord);
+        tx.put(newRecord);
+      });
+    });
+  },
 
-    const newRecord: VinylRecord = {
-      id: `record_${now}_${Math.random().toString(36).substr(2, 9)}`,
-      artistName: record.artistName || '',
-      albumName: record.albumName || '',
-      serialNumber: record.serialNumber || '',
-      matrixRunout: record.matrixRunout || '',
-      imageUrl: record.imageUrl || null,
-      // DISCOGS DATA: These optional fields come from Discogs API
-      // They're populated when user adds a vinyl from Discogs search results
-      year: record.year,
-      country: record.country,
-      genre: record.genre,
-      style: record.style,
-      label: record.label,
-      format: record.format,
-      discogsId: record.discogsId,
-      discogsUrl: record.discogsUrl,
-      createdAt: now,
-      updatedAt: now,
-    };
-
-    records.push(newRecord);
-    await saveRecords(records);
-    return newRecord;
+  // Save records from a backup as they are, keeping their IDs and dates, a
+  // few at a time so no batch grows with the backup. With replace, every
+  // record not in the backup is removed once they're all saved, so an
+  // interrupted restore never leaves fewer records than it started with.
+  // Without replace, records added from the backup for a release that's
+  // already in the collection are kept as copies of it.
+  async restoreRecords(records: VinylRecord[], replace: boolean): Promise<void> {
+    const restored = replace ? records : await this.linkRestoredCopies(records);
+    for (let start = 0; start < restored.length; start += RESTORE_BATCH_SIZE) {
+      const batch = restored.slice(start, start + RESTORE_BATCH_SIZE);
+      await recordStore.transaction(async tx => batch.forEach(record => tx.put(record)));
+    }
+
+    if (replace) {
+      const restoredIds = new Set(records.map(record => record.id));
+      await recordStore.transaction(async tx => {
+        (await tx.getIds()).filter(id => !restoredIds.has(id)).forEach(id => tx.remove(id));
+      });
+    }
+  },
+
+  // Point new, unlinked backup records at the first local record of their
+  // Discogs release
+  async linkRestoredCopies(records: VinylRecord[]): Promise<VinylRecord[]> {
+    const existing = await recordStore.getByDiscogsIds(
+      records.flatMap(record => (record.discogsId && !record.copyOf ? [record.discogsId] : []))
+    );
+    const existingIds = new Set(existing.map(record => record.id));
+    const firstOfRelease = new Map<number, string>();
+    existing.forEach(record => {
+      if (record.discogsId && !firstOfRelease.has(record.discogsId)) {
+        firstOfRelease.set(record.discogsId, record.id);
+      }
+    });
+
+    return records.map(record => {
+      const copyOf = record.discogsId ? firstOfRelease.get(record.discogsId) : undefined;
+      return copyOf && !record.copyOf && !existingIds.has(record.id)
+        ? { ...record, copyOf }
+        : record;
+    });
   },
 
   // Update a record
   async updateRecord(id: string, updates: Partial<VinylData>): Promise<VinylRecord> {
-    const records = await getStoredRecords();
-    const index = records.findIndex(r => r.id === id);
+    return recordStore.transaction(async tx => {
+      const record = await tx.get(id);
+      if (!record) {
+        throw new Error('Record not found');
+      }
 
-    if (index === -1) {
-      throw new Error('Record not found');
-    }
+      const updated = { ...record, ...updates, updatedAt: Date.now() };
+      tx.put(updated);
+      return updated;
+    });
+  },
+
+  // Merge duplicate records into one: the target keeps its own details and
+  // gets any it's missing from the others, which are then removed. Records
+  // kept as copies of a removed one become copies of the target. Only the
+  // local records change; copies in the Discogs collection stay.
+  async mergeRecords(targetId: string, sourceIds: string[]): Promise<VinylRecord> {
+    return recordStore.transaction(async tx => {
+      const target = await tx.get(targetId);
+      if (!target) {
+        throw new Error('Record not found');
+      }
+
+      const now = Date.now();
+      const sources = await tx.getMany(sourceIds.filter(id => id !== targetId));
+      const removed = new Set(sources.map(source => source.id));
+      const merged = {
+        ...target,
+        ...mergeFields(target, sources),
+        copyOf: target.copyOf && removed.has(target.copyOf) ? undefined : target.copyOf,
+        updatedAt: now,
+      };
+      tx.put(merged);
+      sources.forEach(source => tx.remove(source.id));
+
+      (await tx.getCopiesOf([...removed]))
+        .filter(record => record.id !== targetId)
+        .forEach(record => tx.put({ ...record, copyOf: targetId, updatedAt: now }));
+      return merged;
+    });
+  },
 
-    records[index] = {
-      ...records[index],
-      ...updates,
-      updatedAt: Date.now(),
-    };
+  // Append a valuation snapshot, dropping the oldest beyond MAX_VALUATIONS
+  async addValuation(id: string, snapshot: ValuationSnapshot): Promise<VinylRecord> {
+    return recordStore.transaction(async tx => {
+      const record = await tx.get(id);
+      if (!record) {
+        throw new Error('Record not found');
+      }
 
-    await saveRecords(records);
-    return records[index];
+      const updated = {
+        ...record,
+        valuations: [...(record.valuations || []), snapshot].slice(-MAX_VALUATIONS),
+        updatedAt: Date.now(),
+      };
+      tx.put(updated);
+      return updated;
+    });
   },
 
-  // Delete a record
+  // Delete a record. Synced records are removed from Discogs first, and
+  // kept locally if that fails so the two collections don't drift apart.
   async deleteRecord(id: string): Promise<void> {
-    const records = await getStoredRecords();
-    const filtered = records.filter(r => r.id !== id);
-    await saveRecords(filtered);
+    const record = await recordStore.get(id);
+
+    if (record?.syncToDiscogs) {
+      try {
+        await removeRecordFromDiscogs(record);
+      } catch (error) {
+        console.error('Error removing record from Discogs collection:', error);
+        throw new Error('Could not remove the record from your Discogs collection');
+      }
+    }
+
+    // The Discogs request runs outside the transaction so other changes
+    // aren't held up by the network
+    await recordStore.transaction(async tx => tx.remove(id));
+  },
+
+  // Turn Discogs sync on or off for a record. Turning it on adds the
+  // release to the Discogs collection unless the record is already there;
+  // turning it off leaves the Discogs copy in place.
+  async setDiscogsSync(id: string, enabled: boolean): Promise<VinylRecord> {
+    const record = await this.getRecord(id);
+
+    if (enabled && record.discogsInstanceId === undefined) {
+      const instance = await addRecordToDiscogs(record);
+      return this.updateRecord(id, { ...instance, syncToDiscogs: true });
+    }
+    return this.updateRecord(id, { syncToDiscogs: enabled });
   },
 
   // Upload an image (store as base64 in the record)
@@ -0,0 +1,363 @@
+// ============================================================================
+// BACKUP - Full collection backup and restore as a single JSON file
+// ============================================================================
+// A backup holds every record, the photos they reference and the app
+// settings, so the collection survives reinstalling or changing phones:
+// - Photos taken in the app are files on this device (file:// imageUrls);
+//   they're embedded as base64 and written back to the documents folder on
+//   restore. Discogs cover URLs are kept as URLs.
+// - schemaVersion is the record schema the backup was made with. Older
+//   backups are migrated and validated on restore like stored records
+//   (see recordSchema.ts); backups from a newer app are refused.
+// - checksum is the SHA-256 of the payload JSON, so a truncated or edited
+//   file is detected before anything is restored.
+//
+// RESTORE is planned first (planRestore) so the user sees what will happen.
+// Records are matched by ID and compared by updatedAt:
+// - new: not in the collection
+// - updated: the backup's copy is newer
+// - conflicting: the collection's copy changed since the backup was made
+// Merge adds new and updated records and keeps conflicting ones as they
+// are. Replace makes the collection exactly the backup, settings included;
+// records not in the backup are only removed after every backup record was
+// saved (see api.restoreRecords).
+//
+// AUTOMATIC BACKUPS are written to a "backups" folder in the app's
+// documents directory when the last one is older than the chosen interval,
+// keeping the newest few.
+// ============================================================================
+
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import type { VinylRecord } from '../types';
+import { api } from './api';
+import { RECORD_SCHEMA_VERSION, migrateRecord, validateRecord } from './recordSchema';
+import { appSettings, AppSettings, AutoBackupFrequency } from './settings';
+
+const BACKUP_FORMAT = 'vinyl-rn-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const AUTO_BACKUPS_KEPT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AUTO_BACKUP_INTERVALS: Record<Exclude<AutoBackupFrequency, 'off'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+interface BackupPayload {
+  records: VinylRecord[];
+  // Photo files embedded as base64, by record ID
+  photos: Record<string, { extension: string; base64: string }>;
+  settings: AppSettings;
+}
+
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: number;
+  // SHA-256 of JSON.stringify(payload)
+  checksum: string;
+  payload: BackupPayload;
+}
+
+// A backup that passed verification, with records in the current schema
+export interface VerifiedBackup {
+  name: string;
+  createdAt: number;
+  records: VinylRecord[];
+  photos: BackupPayload['photos'];
+  settings: AppSettings;
+  // Records that failed validation and won't be restored
+  invalidCount: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  added: VinylRecord[];
+  updated: VinylRecord[];
+  conflicting: VinylRecord[];
+  unchanged: number;
+  // Records in the collection but not in the backup (removed by replace)
+  removed: number;
+}
+
+export interface BackupFileInfo {
+  file: File;
+  name: string;
+  modifiedAt: number;
+  size: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function backupFileName(timestamp: number): string {
+  const date = new Date(timestamp);
+  return (
+    `vinyl-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.json`
+  );
+}
+
+const autoBackupDirectory = () => new Directory(Paths.document, 'backups');
+
+const photoDirectory = () => new Directory(Paths.document, 'photos');
+
+function checksum(payload: BackupPayload): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, JSON.stringify(payload));
+}
+
+/**
+ * Collect records, photos and settings into a backup archive
+ */
+async function createArchive(): Promise<BackupArchive> {
+  const records = await api.getRecords();
+  const photos: BackupPayload['photos'] = {};
+
+  for (const record of records) {
+    if (!record.imageUrl?.startsWith('file://')) continue;
+
+    const photo = new File(record.imageUrl);
+    if (!photo.exists) {
+      console.warn(`Photo for record ${record.id} is missing; backing up without it`);
+      continue;
+    }
+    photos[record.id] = { extension: photo.extension, base64: await photo.base64() };
+  }
+
+  const payload: BackupPayload = { records, photos, settings: await appSettings.get() };
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: RECORD_SCHEMA_VERSION,
+    createdAt: Date.now(),
+    checksum: await checksum(payload),
+    payload,
+  };
+}
+
+/**
+ * Write a backup file into a directory
+ *
+ * @returns The new file
+ */
+export async function writeBackup(directory: Directory): Promise<File> {
+  const archive = await createArchive();
+  directory.create({ intermediates: true, idempotent: true });
+
+  const file = new File(directory, backupFileName(archive.createdAt));
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(archive));
+  return file;
+}
+
+/**
+ * Write a backup to the cache folder and open the share sheet, so it can be
+ * saved to cloud storage or sent to another device
+ *
+ * @throws Error if sharing isn't available or the backup can't be written
+ */
+export async function shareBackup(): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = await writeBackup(Paths.cache);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Save Backup',
+  });
+}
+
+/**
+ * Read and verify a backup file
+ *
+ * @throws Error if the file isn't a backup, is damaged or is from a newer
+ *   version of the app
+ */
+export async function readBackup(file: File): Promise<VerifiedBackup> {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not a backup');
+  }
+
+  if (archive?.format !== BACKUP_FORMAT || !archive.payload) {
+    throw new Error('This file is not a backup');
+  }
+  if (
+    archive.formatVersion > BACKUP_FORMAT_VERSION ||
+    archive.schemaVersion > RECORD_SCHEMA_VERSION
+  ) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  if ((await checksum(archive.payload)) !== archive.checksum) {
+    throw new Error('This backup is damaged: its checksum does not match');
+  }
+
+  const records: VinylRecord[] = [];
+  let invalidCount = 0;
+  (archive.payload.records || []).forEach((stored: unknown) => {
+    const id = (stored as { id?: unknown } | null)?.id;
+    const result =
+      typeof id === 'string' && id
+        ? validateRecord(migrateRecord(stored, archive.schemaVersion), id)
+        : null;
+    if (result?.valid) {
+      records.push(result.record);
+    } else {
+      invalidCount++;
+    }
+  });
+
+  return {
+    name: file.name,
+    createdAt: archive.createdAt,
+    records,
+    photos: archive.payload.photos || {},
+    settings: archive.payload.settings,
+    invalidCount,
+  };
+}
+
+/**
+ * Let the user pick a backup file and verify it
+ *
+ * @returns The verified backup, or null if the user cancelled
+ */
+export async function pickBackup(): Promise<VerifiedBackup | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return null;
+  }
+  return readBackup(new File(result.assets[0].uri));
+}
+
+/**
+ * Work out what restoring a backup would change, without changing anything
+ */
+export function planRestore(
+  backup: VerifiedBackup,
+  existing: VinylRecord[],
+  mode: RestoreMode
+): RestorePlan {
+  const byId = new Map(existing.map(record => [record.id, record]));
+  const backupIds = new Set(backup.records.map(record => record.id));
+  const plan: RestorePlan = {
+    mode,
+    added: [],
+    updated: [],
+    conflicting: [],
+    unchanged: 0,
+    removed: mode === 'replace' ? existing.filter(record => !backupIds.has(record.id)).length : 0,
+  };
+
+  backup.records.forEach(record => {
+    const current = byId.get(record.id);
+    if (!current) {
+      plan.added.push(record);
+    } else if (current.updatedAt === record.updatedAt) {
+      plan.unchanged++;
+    } else if (record.updatedAt > current.updatedAt) {
+      plan.updated.push(record);
+    } else {
+      plan.conflicting.push(record);
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Write a record's embedded photo to the documents folder
+ *
+ * @returns The record pointing at the restored photo
+ */
+function restorePhoto(record: VinylRecord, backup: VerifiedBackup): VinylRecord {
+  const photo = backup.photos[record.id];
+  if (!photo) {
+    return record;
+  }
+
+  const directory = photoDirectory();
+  directory.create({ intermediates: true, idempotent: true });
+  const file = new File(directory, `${record.id}${photo.extension}`);
+  file.create({ overwrite: true });
+  file.write(photo.base64, { encoding: 'base64' });
+  return { ...record, imageUrl: file.uri };
+}
+
+/**
+ * Apply a restore plan. Replace also restores the backup's settings.
+ *
+ * @returns Number of records written
+ */
+export async function applyRestore(backup: VerifiedBackup, plan: RestorePlan): Promise<number> {
+  const records =
+    plan.mode === 'replace'
+      ? [...plan.added, ...plan.updated, ...plan.conflicting]
+      : [...plan.added, ...plan.updated];
+
+  const restored = records.map(record => restorePhoto(record, backup));
+  if (restored.length > 0 || plan.removed > 0) {
+    await api.restoreRecords(restored, plan.mode === 'replace');
+  }
+  if (plan.mode === 'replace' && backup.settings) {
+    await appSettings.update(backup.settings);
+  }
+  return restored.length;
+}
+
+/**
+ * Automatic backups, newest first
+ */
+export function listAutoBackups(): BackupFileInfo[] {
+  const directory = autoBackupDirectory();
+  if (!directory.exists) {
+    return [];
+  }
+
+  return directory
+    .list()
+    .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.json'))
+    .map(file => ({
+      file,
+      name: file.name,
+      modifiedAt: file.modificationTime ?? 0,
+      size: file.size,
+    }))
+    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/**
+ * Write an automatic backup if one is due, then delete the oldest beyond
+ * AUTO_BACKUPS_KEPT. Called when the app starts.
+ *
+ * @returns The new backup, or null if none was due
+ */
+export async function runScheduledBackup(): Promise<File | null> {
+  const { autoBackup } = await appSettings.get();
+  if (autoBackup === 'off') {
+    return null;
+  }
+
+  const latest = listAutoBackups()[0];
+  if (latest && Date.now() - latest.modifiedAt < AUTO_BACKUP_INTERVALS[autoBackup]) {
+    return null;
+  }
+
+  const file = await writeBackup(autoBackupDirectory());
+  listAutoBackups()
+    .slice(AUTO_BACKUPS_KEPT)
+    .forEach(old => old.file.delete());
+  return file;
+}
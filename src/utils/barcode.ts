@@ -0,0 +1,132 @@
+// ============================================================================
+// BARCODE HELPERS - UPC/EAN validation and normalization
+// ============================================================================
+// Barcodes on record sleeves come in several GTIN flavours: UPC-A (12 digits,
+// North America), EAN-13 (13 digits, everywhere else), and the short EAN-8
+// and UPC-E forms. Everything is normalized to EAN-13 where possible so the
+// same release looks the same whether it was scanned, photographed or typed.
+// ============================================================================
+
+import { discogsAPI, DiscogsSearchResponse } from './discogs';
+
+// Symbologies reported by the camera scanner (matches expo-camera names)
+export type BarcodeSymbology = 'ean13' | 'ean8' | 'upc_a' | 'upc_e';
+
+export const SUPPORTED_SYMBOLOGIES: BarcodeSymbology[] = ['ean13', 'ean8', 'upc_a', 'upc_e'];
+
+export interface NormalizedBarcode {
+  // EAN-13 for UPC/EAN-13 input, EAN-8 for EAN-8 input
+  code: string;
+  format: 'EAN-13' | 'EAN-8' | 'UPC-A' | 'UPC-E';
+  // 12-digit form for North American codes (Discogs often stores these)
+  upcA?: string;
+}
+
+/**
+ * Remove everything that isn't a digit (spaces, dashes, scanner prefixes)
+ */
+export function cleanBarcode(raw: string): string {
+  return raw.replace(/\D/g, '');
+}
+
+/**
+ * GTIN check digit for the given digits (without the check digit).
+ * Weights alternate 3, 1, 3, ... starting from the rightmost digit.
+ */
+export function computeCheckDigit(body: string): number {
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d{8,14}$/.test(code)) return false;
+  return computeCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Expand an 8-digit UPC-E code (number system + 6 digits + check) to UPC-A
+ */
+export function expandUpcE(upcE: string): string {
+  if (!/^[01]\d{7}$/.test(upcE)) {
+    throw new Error('UPC-E codes must be 8 digits starting with 0 or 1');
+  }
+
+  const numberSystem = upcE[0];
+  const d = upcE.slice(1, 7);
+  const check = upcE[7];
+  const last = Number(d[5]);
+
+  let body: string;
+  if (last <= 2) {
+    body = `${d[0]}${d[1]}${d[5]}0000${d[2]}${d[3]}${d[4]}`;
+  } else if (last === 3) {
+    body = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+  } else if (last === 4) {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+  } else {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${d[5]}`;
+  }
+
+  return `${numberSystem}${body}${check}`;
+}
+
+/**
+ * Validate and normalize a scanned or typed barcode
+ *
+ * @param raw - Barcode as scanned or typed (spaces and dashes are ignored)
+ * @param symbology - Symbology reported by the scanner, if known
+ * @throws Error describing why the code is not a valid UPC/EAN
+ */
+export function normalizeBarcode(raw: string, symbology?: BarcodeSymbology): NormalizedBarcode {
+  const digits = cleanBarcode(raw);
+
+  if (digits.length === 8) {
+    // 8 digits is either EAN-8 or UPC-E; prefer what the scanner told us
+    const tryUpcE = symbology === 'upc_e' || (!symbology && !hasValidCheckDigit(digits));
+    if (tryUpcE && /^[01]/.test(digits)) {
+      const upcA = expandUpcE(digits);
+      if (!hasValidCheckDigit(upcA)) {
+        throw new Error('Invalid barcode: check digit does not match');
+      }
+      return { code: `0${upcA}`, format: 'UPC-E', upcA };
+    }
+    if (!hasValidCheckDigit(digits)) {
+      throw new Error('Invalid barcode: check digit does not match');
+    }
+    return { code: digits, format: 'EAN-8' };
+  }
+
+  if (digits.length === 12) {
+    if (!hasValidCheckDigit(digits)) {
+      throw new Error('Invalid barcode: check digit does not match');
+    }
+    return { code: `0${digits}`, format: 'UPC-A', upcA: digits };
+  }
+
+  if (digits.length === 13) {
+    if (!hasValidCheckDigit(digits)) {
+      throw new Error('Invalid barcode: check digit does not match');
+    }
+    // EAN-13 with a leading zero is a UPC-A code
+    return digits.startsWith('0')
+      ? { code: digits, format: 'EAN-13', upcA: digits.slice(1) }
+      : { code: digits, format: 'EAN-13' };
+  }
+
+  throw new Error('Barcodes must have 8, 12 or 13 digits');
+}
+
+/**
+ * Search Discogs for a normalized barcode. Discogs stores barcodes as they
+ * were entered, so North American codes are retried in their 12-digit form.
+ */
+export async function searchBarcode(barcode: NormalizedBarcode): Promise<DiscogsSearchResponse> {
+  const response = await discogsAPI.searchByBarcode(barcode.code);
+  if (response.results.length > 0 || !barcode.upcA) {
+    return response;
+  }
+  return discogsAPI.searchByBarcode(barcode.upcA);
+}
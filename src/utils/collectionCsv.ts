@@ -0,0 +1,444 @@
+// ============================================================================
+// COLLECTION CSV - Import and export in Discogs' collection export format
+// ============================================================================
+// EXPORT writes the columns of Discogs' own collection export (Catalog#,
+// Artist, Title, ... Collection Notes), so the file opens in the same
+// spreadsheets and tools, followed by a few columns for data Discogs'
+// export doesn't include (country, genres, styles, matrix / runout).
+// Rating and notes aren't stored in this app and are left empty.
+//
+// IMPORT reads any CSV with a header row. Columns are matched to record
+// fields by name (guessColumnMapping), which the user can change before
+// previewing. Each row is checked and compared with the collection:
+// - error: the row can't become a record; reported and never imported
+// - duplicate: a record of the same Discogs release (release_id), or with
+//   the same artist and title when there's no release_id, already exists,
+//   or an earlier row in the file is the same release
+// - new: everything else
+// Duplicates are skipped, merged (empty fields filled from the row) or
+// added as another copy; merging a row that repeats an earlier one fills
+// the record the earlier row creates.
+//
+// Files are shared through the platform share sheet and picked with the
+// document picker.
+// ============================================================================
+
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import type { VinylRecord } from '../types';
+import { api } from './api';
+import { CsvRow, parseCsv, toCsv } from './csv';
+import { discogsAPI } from './discogs';
+import { discogsAccount } from './discogsAccount';
+import { fillMissingFields, ImportedRecordInput, NewRecordInput } from './discogsMapping';
+import { MEDIA_CONDITIONS, SLEEVE_CONDITIONS } from './conditions';
+import { formatMatrixList, parseMatrixList } from './matrix';
+
+// Discogs' collection export columns, in order
+const DISCOGS_EXPORT_COLUMNS = [
+  'Catalog#',
+  'Artist',
+  'Title',
+  'Label',
+  'Format',
+  'Rating',
+  'Released',
+  'release_id',
+  'CollectionFolder',
+  'Date Added',
+  'Collection Media Condition',
+  'Collection Sleeve Condition',
+  'Collection Notes',
+];
+
+// Data this app keeps that Discogs' export doesn't
+const EXTRA_COLUMNS = ['Country', 'Genres', 'Styles', 'Matrix / Runout'];
+
+// Discogs' default folder for new collection items
+const UNCATEGORIZED_FOLDER_ID = 1;
+
+export type CsvField =
+  | 'catno'
+  | 'artist'
+  | 'title'
+  | 'label'
+  | 'format'
+  | 'released'
+  | 'releaseId'
+  | 'mediaCondition'
+  | 'sleeveCondition'
+  | 'country'
+  | 'genres'
+  | 'styles'
+  | 'matrix';
+
+// Importable fields with the column names they're recognized by (lowercase)
+export const CSV_FIELDS: Array<{ key: CsvField; label: string; headers: string[] }> = [
+  { key: 'artist', label: 'Artist', headers: ['artist', 'artist name'] },
+  { key: 'title', label: 'Title', headers: ['title', 'album', 'album name'] },
+  {
+    key: 'catno',
+    label: 'Catalog #',
+    headers: ['catalog#', 'catalog #', 'catno', 'catalog number'],
+  },
+  { key: 'label', label: 'Label', headers: ['label'] },
+  { key: 'format', label: 'Format', headers: ['format'] },
+  { key: 'released', label: 'Year', headers: ['released', 'year'] },
+  {
+    key: 'releaseId',
+    label: 'Discogs release ID',
+    headers: ['release_id', 'release id', 'discogs id'],
+  },
+  {
+    key: 'mediaCondition',
+    label: 'Media condition',
+    headers: ['collection media condition', 'media condition'],
+  },
+  {
+    key: 'sleeveCondition',
+    label: 'Sleeve condition',
+    headers: ['collection sleeve condition', 'sleeve condition'],
+  },
+  { key: 'country', label: 'Country', headers: ['country'] },
+  { key: 'genres', label: 'Genres', headers: ['genres', 'genre'] },
+  { key: 'styles', label: 'Styles', headers: ['styles', 'style'] },
+  { key: 'matrix', label: 'Matrix / runout', headers: ['matrix / runout', 'matrix', 'runout'] },
+];
+
+// Column index for each field, or null when the field isn't imported
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export interface CsvFile {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+export interface CsvImportRow {
+  // Line the row starts on, counting the header as line 1
+  line: number;
+  status: 'new' | 'duplicate' | 'error';
+  record: NewRecordInput | null;
+  // Existing record this row duplicates
+  duplicateOf: VinylRecord | null;
+  // Line of an earlier row in the file that's the same release
+  duplicateOfLine: number | null;
+  errors: string[];
+}
+
+// What to do with rows that duplicate an existing record:
+// - skip: leave the existing record untouched
+// - merge: fill the existing record's empty fields from the row
+// - add: save the row as another copy
+export type CsvDuplicateMode = 'skip' | 'merge' | 'add';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Discogs' "Date Added" format: 2019-03-14 10:21:33
+function formatDateAdded(timestamp: number): string {
+  const date = new Date(timestamp);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const normalize = (value: string | undefined) =>
+  (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Serialize records as CSV in Discogs' collection export format
+ *
+ * @param folderNames - Discogs folder names by ID, for the CollectionFolder
+ *   column; Uncategorized is known without them
+ */
+export function recordsToCsv(
+  records: VinylRecord[],
+  folderNames: Record<number, string> = {}
+): string {
+  const rows = records.map(record => [
+    record.serialNumber,
+    record.artistName,
+    record.albumName,
+    record.label || '',
+    record.format || '',
+    '',
+    record.year ? String(record.year) : '',
+    record.discogsId ? String(record.discogsId) : '',
+    record.discogsFolderId === undefined
+      ? ''
+      : folderNames[record.discogsFolderId] ??
+        (record.discogsFolderId === UNCATEGORIZED_FOLDER_ID ? 'Uncategorized' : ''),
+    formatDateAdded(record.createdAt),
+    record.mediaCondition || '',
+    record.sleeveCondition || '',
+    '',
+    record.country || '',
+    (record.genre || []).join(', '),
+    (record.style || []).join(', '),
+    formatMatrixList(record.matrixRunout),
+  ]);
+
+  return toCsv([[...DISCOGS_EXPORT_COLUMNS, ...EXTRA_COLUMNS], ...rows]);
+}
+
+/**
+ * Match columns to fields by header name
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(normalize);
+  const mapping = {} as CsvColumnMapping;
+
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => field.headers.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+  });
+  return mapping;
+}
+
+/**
+ * Turn one row into record fields, collecting every problem found
+ */
+function rowToRecord(
+  row: string[],
+  mapping: CsvColumnMapping
+): { record: NewRecordInput | null; errors: string[] } {
+  const value = (field: CsvField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] || '').trim();
+  };
+  const errors: string[] = [];
+
+  const releaseIdText = value('releaseId');
+  const releaseId = releaseIdText ? Number(releaseIdText) : undefined;
+  if (releaseId !== undefined && (!Number.isInteger(releaseId) || releaseId <= 0)) {
+    errors.push(`Invalid release_id "${releaseIdText}"`);
+  }
+
+  // Discogs exports release dates such as "1979" or "1979-05-00"
+  const releasedText = value('released');
+  const yearMatch = releasedText.match(/^(\d{4})/);
+  if (releasedText && !yearMatch) {
+    errors.push(`Invalid release year "${releasedText}"`);
+  }
+
+  const mediaText = value('mediaCondition');
+  const mediaCondition = MEDIA_CONDITIONS.find(c => c.value === mediaText)?.value;
+  if (mediaText && !mediaCondition) {
+    errors.push(`Unknown media condition "${mediaText}"`);
+  }
+
+  const sleeveText = value('sleeveCondition');
+  const sleeveCondition = SLEEVE_CONDITIONS.find(c => c.value === sleeveText)?.value;
+  if (sleeveText && !sleeveCondition) {
+    errors.push(`Unknown sleeve condition "${sleeveText}"`);
+  }
+
+  const artistName = value('artist');
+  const albumName = value('title');
+  if (!artistName && !albumName && !releaseIdText) {
+    errors.push('No artist, title or release_id');
+  }
+
+  if (errors.length > 0) {
+    return { record: null, errors };
+  }
+
+  const genre = splitList(value('genres'));
+  const style = splitList(value('styles'));
+  const year = yearMatch ? parseInt(yearMatch[1], 10) : 0;
+  return {
+    record: {
+      artistName,
+      albumName,
+      serialNumber: value('catno'),
+      matrixRunout: parseMatrixList(value('matrix')),
+      year: year > 0 ? year : undefined,
+      country: value('country') || undefined,
+      genre: genre.length > 0 ? genre : undefined,
+      style: style.length > 0 ? style : undefined,
+      label: value('label') || undefined,
+      format: value('format') || undefined,
+      discogsId: releaseId,
+      discogsUrl: releaseId ? `https://www.discogs.com/release/${releaseId}` : undefined,
+      mediaCondition,
+      sleeveCondition,
+    },
+    errors,
+  };
+}
+
+const titleKey = (record: { artistName?: string; albumName?: string }) =>
+  `${normalize(record.artistName)}\n${normalize(record.albumName)}`;
+
+/**
+ * Check every row and find the ones that duplicate existing records or an
+ * earlier row in the file
+ */
+export function previewCsvImport(
+  rows: CsvRow[],
+  mapping: CsvColumnMapping,
+  existing: VinylRecord[]
+): CsvImportRow[] {
+  const byDiscogsId = new Map<number, VinylRecord>();
+  const byTitle = new Map<string, VinylRecord>();
+  existing.forEach(record => {
+    if (record.discogsId) byDiscogsId.set(record.discogsId, record);
+    byTitle.set(titleKey(record), record);
+  });
+  // First line of each release that's new to the collection
+  const lineByKey = new Map<string, number>();
+
+  return rows.map(({ line, fields }) => {
+    const { record, errors } = rowToRecord(fields, mapping);
+    if (!record) {
+      return {
+        line,
+        status: 'error',
+        record: null,
+        duplicateOf: null,
+        duplicateOfLine: null,
+        errors,
+      };
+    }
+
+    const duplicateOf =
+      (record.discogsId ? byDiscogsId.get(record.discogsId) : byTitle.get(titleKey(record))) ??
+      null;
+    const key = record.discogsId ? `discogs:${record.discogsId}` : `title:${titleKey(record)}`;
+    const duplicateOfLine = duplicateOf ? null : (lineByKey.get(key) ?? null);
+    if (!duplicateOf && duplicateOfLine === null) {
+      lineByKey.set(key, line);
+    }
+    return {
+      line,
+      status: duplicateOf || duplicateOfLine !== null ? 'duplicate' : 'new',
+      record,
+      duplicateOf,
+      duplicateOfLine,
+      errors,
+    };
+  });
+}
+
+/**
+ * Save previewed rows in a single batch. Rows with errors are never saved.
+ *
+ * @returns Number of records added, merged and skipped (including errors)
+ */
+export async function importCsvRows(
+  rows: CsvImportRow[],
+  duplicateMode: CsvDuplicateMode
+): Promise<{ added: number; merged: number; skipped: number }> {
+  const create: ImportedRecordInput[] = [];
+  const update: Array<{ id: string; updates: NewRecordInput }> = [];
+  // Position in `create` of the record being created, by the line of its row
+  const createdByLine = new Map<number, number>();
+  let mergedInFile = 0;
+  let skipped = 0;
+
+  rows.forEach(row => {
+    const earlierPosition =
+      row.duplicateOfLine === null ? undefined : createdByLine.get(row.duplicateOfLine);
+    const earlier = earlierPosition === undefined ? undefined : create[earlierPosition];
+    if (!row.record) {
+      skipped++;
+    } else if (duplicateMode === 'add' || (!row.duplicateOf && row.duplicateOfLine === null)) {
+      // Duplicates added anyway are kept as copies, so the collection scan
+      // doesn't report them
+      createdByLine.set(row.line, create.length);
+      create.push({
+        ...row.record,
+        copyOf: row.duplicateOf?.id,
+        copyOfCreated: earlierPosition,
+      });
+    } else if (duplicateMode === 'merge' && row.duplicateOf) {
+      update.push({
+        id: row.duplicateOf.id,
+        updates: fillMissingFields(row.duplicateOf, row.record),
+      });
+    } else if (duplicateMode === 'merge' && earlier) {
+      Object.assign(earlier, fillMissingFields(earlier, row.record));
+      mergedInFile++;
+    } else {
+      skipped++;
+    }
+  });
+
+  if (create.length || update.length) {
+    await api.importRecords({ create, update });
+  }
+  return { added: create.length, merged: update.length + mergedInFile, skipped };
+}
+
+/**
+ * Discogs folder names by ID when signed in; exports work without them
+ */
+async function getFolderNames(): Promise<Record<number, string>> {
+  if (discogsAccount.getState().status !== 'signedIn') {
+    return {};
+  }
+
+  try {
+    const folders = await discogsAPI.getCollectionFolders(discogsAccount.requireUsername());
+    return Object.fromEntries(folders.map(folder => [folder.id, folder.name]));
+  } catch (error) {
+    console.warn('Discogs folder names unavailable for export:', error);
+    return {};
+  }
+}
+
+/**
+ * Write the collection to a CSV file and open the share sheet for it
+ *
+ * @throws Error if sharing isn't available or the file can't be written
+ */
+export async function exportCollectionCsv(records: VinylRecord[]): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const date = new Date();
+  const file = new File(
+    Paths.cache,
+    `vinyl-collection-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.csv`
+  );
+  file.create({ overwrite: true });
+  file.write(recordsToCsv(records, await getFolderNames()));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: 'Export Collection',
+  });
+}
+
+/**
+ * Let the user pick a CSV file and parse it
+ *
+ * @returns The file's header and rows, or null if the user cancelled
+ * @throws Error if the file can't be read or has no header row
+ */
+export async function pickCsvFile(): Promise<CsvFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const [headers, ...rows] = parseCsv(await new File(asset.uri).text());
+  if (!headers) {
+    throw new Error('The file is empty');
+  }
+  return { name: asset.name, headers: headers.fields, rows };
+}
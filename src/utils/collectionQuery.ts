@@ -0,0 +1,330 @@
+// ============================================================================
+// COLLECTION QUERY - Search, facet filters and sorting for the collection
+// ============================================================================
+// Runs entirely on the records already loaded in memory:
+// - Search matches every word of the query against artist, album, label,
+//   catalog number and matrix / runout text, ignoring case and accents.
+// - Facets are built from the stored genre, style, format, country and
+//   decade (from year) values. Values selected within one facet are OR'd;
+//   facets are AND'd with each other and with the search.
+// - Facet counts are computed against the search and every *other* facet's
+//   selection, so each count says how many results picking that value gives.
+//
+// Results can be grouped into sections (artist initial, decade or first
+// genre) for the sectioned collection list; sections keep the chosen sort.
+//
+// The chosen filters, sort, grouping and layout are saved so the collection
+// opens the way it was left. The search text isn't; it's usually a one-off
+// lookup.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { VinylRecord } from '../types';
+
+const QUERY_KEY = 'collection_query';
+
+export type CollectionFacet = 'genre' | 'style' | 'format' | 'country' | 'decade';
+
+export type CollectionSort = 'artist' | 'album' | 'year' | 'added' | 'updated';
+
+export const COLLECTION_FACETS: Array<{ key: CollectionFacet; label: string }> = [
+  { key: 'genre', label: 'Genre' },
+  { key: 'style', label: 'Style' },
+  { key: 'format', label: 'Format' },
+  { key: 'country', label: 'Country' },
+  { key: 'decade', label: 'Decade' },
+];
+
+export const COLLECTION_SORTS: Array<{ key: CollectionSort; label: string }> = [
+  { key: 'artist', label: 'Artist A–Z' },
+  { key: 'album', label: 'Album' },
+  { key: 'year', label: 'Year' },
+  { key: 'added', label: 'Date Added' },
+  { key: 'updated', label: 'Recently Updated' },
+];
+
+export type CollectionGrouping = 'none' | 'artist' | 'decade' | 'genre';
+
+export const COLLECTION_GROUPINGS: Array<{ key: CollectionGrouping; label: string }> = [
+  { key: 'none', label: 'None' },
+  { key: 'artist', label: 'Artist A–Z' },
+  { key: 'decade', label: 'Decade' },
+  { key: 'genre', label: 'Genre' },
+];
+
+export type CollectionLayout = 'list' | 'grid';
+
+export type CollectionFilters = Record<CollectionFacet, string[]>;
+
+export interface CollectionQuery {
+  search: string;
+  filters: CollectionFilters;
+  sort: CollectionSort;
+  grouping: CollectionGrouping;
+  layout: CollectionLayout;
+}
+
+export interface CollectionSection {
+  key: string;
+  // Empty when the collection isn't grouped
+  title: string;
+  records: VinylRecord[];
+}
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+}
+
+export interface CollectionQueryResult {
+  records: VinylRecord[];
+  // Values of each facet with result counts, most common first
+  facets: Record<CollectionFacet, FacetValueCount[]>;
+}
+
+export const EMPTY_FILTERS: CollectionFilters = {
+  genre: [],
+  style: [],
+  format: [],
+  country: [],
+  decade: [],
+};
+
+export const DEFAULT_COLLECTION_QUERY: CollectionQuery = {
+  search: '',
+  filters: EMPTY_FILTERS,
+  sort: 'added',
+  grouping: 'none',
+  layout: 'list',
+};
+
+// Sections without a value for the grouping, listed last
+const OTHER_ARTISTS = '#';
+const UNKNOWN_DECADE = 'Unknown Year';
+const NO_GENRE = 'No Genre';
+
+/**
+ * Lower-case and strip accents so "Björk" matches "bjork"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function searchText(record: VinylRecord): string {
+  return normalize(
+    [
+      record.artistName,
+      record.albumName,
+      record.label,
+      record.serialNumber,
+      ...(record.matrixRunout || []).map(entry => entry.text),
+    ]
+      .filter(Boolean)
+      .join(' ')
+  );
+}
+
+/**
+ * Values a record has for a facet; records can have several genres and styles
+ */
+export function facetValues(record: VinylRecord, facet: CollectionFacet): string[] {
+  switch (facet) {
+    case 'genre':
+      return record.genre || [];
+    case 'style':
+      return record.style || [];
+    case 'format':
+      return record.format ? [record.format] : [];
+    case 'country':
+      return record.country ? [record.country] : [];
+    case 'decade':
+      return record.year ? [`${Math.floor(record.year / 10) * 10}s`] : [];
+  }
+}
+
+function matchesFacet(record: VinylRecord, facet: CollectionFacet, selected: string[]): boolean {
+  return selected.length === 0 || facetValues(record, facet).some(v => selected.includes(v));
+}
+
+function matchesFilters(
+  record: VinylRecord,
+  filters: CollectionFilters,
+  except?: CollectionFacet
+): boolean {
+  return COLLECTION_FACETS.every(
+    ({ key }) => key === except || matchesFacet(record, key, filters[key])
+  );
+}
+
+const compareText = (a: string | undefined, b: string | undefined) =>
+  (a || '').localeCompare(b || '', undefined, { sensitivity: 'base', numeric: true });
+
+// Ties fall back to artist or album; records without a year sort last
+const SORT_COMPARATORS: Record<CollectionSort, (a: VinylRecord, b: VinylRecord) => number> = {
+  artist: (a, b) =>
+    compareText(a.artistName, b.artistName) || compareText(a.albumName, b.albumName),
+  album: (a, b) =>
+    compareText(a.albumName, b.albumName) || compareText(a.artistName, b.artistName),
+  year: (a, b) =>
+    (a.year ?? Infinity) - (b.year ?? Infinity) || compareText(a.artistName, b.artistName),
+  added: (a, b) => b.createdAt - a.createdAt,
+  updated: (a, b) => b.updatedAt - a.updatedAt,
+};
+
+/**
+ * Search, filter and sort records, and count facet values
+ */
+export function queryCollection(
+  records: VinylRecord[],
+  query: CollectionQuery
+): CollectionQueryResult {
+  const words = normalize(query.search).split(/\s+/).filter(Boolean);
+  const searched =
+    words.length > 0
+      ? records.filter(record => {
+          const text = searchText(record);
+          return words.every(word => text.includes(word));
+        })
+      : records;
+
+  const facets = {} as CollectionQueryResult['facets'];
+  COLLECTION_FACETS.forEach(({ key }) => {
+    const counts = new Map<string, number>();
+    searched
+      .filter(record => matchesFilters(record, query.filters, key))
+      .forEach(record => {
+        new Set(facetValues(record, key)).forEach(value => {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        });
+      });
+    // Keep selected values listed even when nothing else matches them
+    query.filters[key].forEach(value => {
+      if (!counts.has(value)) counts.set(value, 0);
+    });
+    facets[key] = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) =>
+        key === 'decade'
+          ? compareText(a.value, b.value)
+          : b.count - a.count || compareText(a.value, b.value)
+    );
+  });
+
+  return {
+    records: searched
+      .filter(record => matchesFilters(record, query.filters))
+      .sort(SORT_COMPARATORS[query.sort]),
+    facets,
+  };
+}
+
+/**
+ * Section a record is listed under. Records are listed once, so a record
+ * with several genres goes under its first.
+ */
+function sectionTitle(record: VinylRecord, grouping: CollectionGrouping): string {
+  switch (grouping) {
+    case 'none':
+      return '';
+    case 'artist': {
+      const initial = normalize(record.artistName.trim().charAt(0)).toUpperCase();
+      return /[A-Z]/.test(initial) ? initial : OTHER_ARTISTS;
+    }
+    case 'decade':
+      return facetValues(record, 'decade')[0] || UNKNOWN_DECADE;
+    case 'genre':
+      return record.genre?.[0] || NO_GENRE;
+  }
+}
+
+/**
+ * Split sorted records into sections, keeping their order within each
+ */
+export function groupCollection(
+  records: VinylRecord[],
+  grouping: CollectionGrouping
+): CollectionSection[] {
+  if (grouping === 'none') {
+    return records.length > 0 ? [{ key: 'all', title: '', records }] : [];
+  }
+
+  const sections = new Map<string, VinylRecord[]>();
+  records.forEach(record => {
+    const title = sectionTitle(record, grouping);
+    const section = sections.get(title);
+    if (section) {
+      section.push(record);
+    } else {
+      sections.set(title, [record]);
+    }
+  });
+
+  const isLast = (title: string) =>
+    title === OTHER_ARTISTS || title === UNKNOWN_DECADE || title === NO_GENRE;
+  return Array.from(sections, ([title, sectionRecords]) => ({
+    key: title,
+    title,
+    records: sectionRecords,
+  })).sort(
+    (a, b) => Number(isLast(a.title)) - Number(isLast(b.title)) || compareText(a.title, b.title)
+  );
+}
+
+/**
+ * Number of facet values selected
+ */
+export function activeFilterCount(filters: CollectionFilters): number {
+  return COLLECTION_FACETS.reduce((total, { key }) => total + filters[key].length, 0);
+}
+
+/**
+ * Select or deselect one facet value
+ */
+export function toggleFilter(
+  filters: CollectionFilters,
+  facet: CollectionFacet,
+  value: string
+): CollectionFilters {
+  const selected = filters[facet];
+  return {
+    ...filters,
+    [facet]: selected.includes(value)
+      ? selected.filter(v => v !== value)
+      : [...selected, value],
+  };
+}
+
+export const collectionQueryStore = {
+  // Saved query, with defaults for anything not saved yet
+  async get(): Promise<CollectionQuery> {
+    try {
+      const stored = await AsyncStorage.getItem(QUERY_KEY);
+      const saved: Partial<CollectionQuery> = stored ? JSON.parse(stored) : {};
+      return {
+        search: '',
+        filters: { ...EMPTY_FILTERS, ...saved.filters },
+        sort: COLLECTION_SORTS.some(({ key }) => key === saved.sort)
+          ? (saved.sort as CollectionSort)
+          : DEFAULT_COLLECTION_QUERY.sort,
+        grouping: COLLECTION_GROUPINGS.some(({ key }) => key === saved.grouping)
+          ? (saved.grouping as CollectionGrouping)
+          : DEFAULT_COLLECTION_QUERY.grouping,
+        layout: saved.layout === 'grid' ? 'grid' : 'list',
+      };
+    } catch (error) {
+      console.error('Error reading collection query:', error);
+      return DEFAULT_COLLECTION_QUERY;
+    }
+  },
+
+  // Save everything but the search text
+  async save({ search, ...saved }: CollectionQuery): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUERY_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.error('Error saving collection query:', error);
+    }
+  },
+};
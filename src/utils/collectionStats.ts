@@ -0,0 +1,132 @@
+// ============================================================================
+// COLLECTION STATS - Totals and breakdowns computed from stored records
+// ============================================================================
+// Everything is derived from the VinylRecords already loaded; nothing is
+// fetched. Breakdowns use the same values as the collection facets
+// (see collectionQuery.ts), so a genre count here matches the count shown
+// when filtering by that genre. Records with several genres or styles are
+// counted once under each.
+// ============================================================================
+
+import type { VinylRecord } from '../types';
+import { CollectionFacet, facetValues } from './collectionQuery';
+
+// Months shown in the "added per month" chart, ending with the current one
+const ADDED_MONTHS = 24;
+const TOP_ARTISTS = 10;
+
+export interface StatCount {
+  value: string;
+  count: number;
+}
+
+export interface MonthCount {
+  // First day of the month, local time
+  month: Date;
+  count: number;
+}
+
+export type StatBreakdown = CollectionFacet | 'label';
+
+export interface CollectionStats {
+  recordCount: number;
+  artistCount: number;
+  labelCount: number;
+  earliestYear: number | null;
+  latestYear: number | null;
+  // Value counts, most common first (decades oldest first)
+  breakdowns: Record<StatBreakdown, StatCount[]>;
+  topArtists: StatCount[];
+  addedPerMonth: MonthCount[];
+  // Records missing metadata that a Discogs match would fill
+  missing: {
+    discogsId: number;
+    year: number;
+    cover: number;
+  };
+}
+
+export const STAT_BREAKDOWNS: Array<{ key: StatBreakdown; label: string }> = [
+  { key: 'genre', label: 'Genres' },
+  { key: 'style', label: 'Styles' },
+  { key: 'decade', label: 'Decades' },
+  { key: 'country', label: 'Countries' },
+  { key: 'label', label: 'Labels' },
+  { key: 'format', label: 'Formats' },
+];
+
+function countValues(values: string[][]): StatCount[] {
+  const counts = new Map<string, number>();
+  values.forEach(recordValues => {
+    new Set(recordValues).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+function breakdownValues(record: VinylRecord, breakdown: StatBreakdown): string[] {
+  if (breakdown === 'label') {
+    const label = record.label?.trim();
+    return label ? [label] : [];
+  }
+  return facetValues(record, breakdown);
+}
+
+/**
+ * Records added in each of the last ADDED_MONTHS months, oldest first
+ */
+function countAddedPerMonth(records: VinylRecord[], now: Date): MonthCount[] {
+  const months: MonthCount[] = [];
+  for (let offset = ADDED_MONTHS - 1; offset >= 0; offset--) {
+    months.push({ month: new Date(now.getFullYear(), now.getMonth() - offset, 1), count: 0 });
+  }
+
+  const first = months[0].month;
+  records.forEach(record => {
+    const added = new Date(record.createdAt);
+    const index =
+      (added.getFullYear() - first.getFullYear()) * 12 + added.getMonth() - first.getMonth();
+    if (index >= 0 && index < months.length) {
+      months[index].count++;
+    }
+  });
+  return months;
+}
+
+/**
+ * Compute collection statistics
+ *
+ * @param now - End of the "added per month" range (defaults to today)
+ */
+export function computeCollectionStats(
+  records: VinylRecord[],
+  now: Date = new Date()
+): CollectionStats {
+  const breakdowns = {} as CollectionStats['breakdowns'];
+  STAT_BREAKDOWNS.forEach(({ key }) => {
+    breakdowns[key] = countValues(records.map(record => breakdownValues(record, key)));
+  });
+  breakdowns.decade.sort((a, b) => a.value.localeCompare(b.value));
+
+  const artists = countValues(
+    records.map(record => (record.artistName.trim() ? [record.artistName.trim()] : []))
+  );
+  const years = records.map(record => record.year).filter((year): year is number => !!year);
+
+  return {
+    recordCount: records.length,
+    artistCount: artists.length,
+    labelCount: breakdowns.label.length,
+    earliestYear: years.length > 0 ? Math.min(...years) : null,
+    latestYear: years.length > 0 ? Math.max(...years) : null,
+    breakdowns,
+    topArtists: artists.slice(0, TOP_ARTISTS),
+    addedPerMonth: countAddedPerMonth(records, now),
+    missing: {
+      discogsId: records.filter(record => !record.discogsId).length,
+      year: records.filter(record => !record.year).length,
+      cover: records.filter(record => !record.imageUrl).length,
+    },
+  };
+}
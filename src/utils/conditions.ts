@@ -0,0 +1,28 @@
+// ============================================================================
+// CONDITIONS - Discogs media and sleeve grades
+// ============================================================================
+// The grades a record can be stored with, in Discogs' own wording. Shared by
+// the record form, stored-record validation and CSV import, so every layer
+// accepts exactly the values the MediaCondition/SleeveCondition types allow.
+// ============================================================================
+
+import type { MediaCondition, SleeveCondition } from '../types';
+
+// Media grades with the abbreviations shown on chips, best to worst
+export const MEDIA_CONDITIONS: Array<{ value: MediaCondition; short: string }> = [
+  { value: 'Mint (M)', short: 'M' },
+  { value: 'Near Mint (NM or M-)', short: 'NM' },
+  { value: 'Very Good Plus (VG+)', short: 'VG+' },
+  { value: 'Very Good (VG)', short: 'VG' },
+  { value: 'Good Plus (G+)', short: 'G+' },
+  { value: 'Good (G)', short: 'G' },
+  { value: 'Fair (F)', short: 'F' },
+  { value: 'Poor (P)', short: 'P' },
+];
+
+export const SLEEVE_CONDITIONS: Array<{ value: SleeveCondition; short: string }> = [
+  ...MEDIA_CONDITIONS,
+  { value: 'Generic', short: 'Generic' },
+  { value: 'Not Graded', short: 'Not Graded' },
+  { value: 'No Cover', short: 'No Cover' },
+];
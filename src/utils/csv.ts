@@ -0,0 +1,87 @@
+// ============================================================================
+// CSV - Reading and writing comma-separated values (RFC 4180)
+// ============================================================================
+// Fields containing commas, quotes or line breaks are quoted, with quotes
+// doubled. Parsing accepts CRLF or LF line endings and a leading byte order
+// mark, which spreadsheet apps often add.
+// ============================================================================
+
+export interface CsvRow {
+  // Line the row starts on, counting from 1; a quoted field with line
+  // breaks makes a row span several lines
+  line: number;
+  fields: string[];
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows of fields, the first usually being the header row
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of fields with the line each starts on. Blank
+ * lines are skipped.
+ *
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push({ line: rowLine, fields: row });
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // CRLF counts as one line break
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('The file ends inside a quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
@@ -9,9 +9,21 @@
 // ARCHITECTURE:
 // - TypeScript interfaces define the shape of API responses
 // - DiscogsAPI class handles all HTTP requests to Discogs
+// - Requests go through a RequestScheduler that respects Discogs rate limits
+// - Releases, masters and searches are cached in AsyncStorage (discogsCache.ts)
 // - Singleton instance (discogsAPI) is exported for use throughout the app
 // ============================================================================
 
+import type { MediaCondition } from '../types';
+import { RequestScheduler, SchedulerState } from './requestScheduler';
+import { discogsCache, buildCacheKey, CacheResource, CacheStats } from './discogsCache';
+import {
+  DiscogsCredentials,
+  TokenCredentials,
+  DISCOGS_API_URL,
+  DISCOGS_USER_AGENT,
+} from './discogsAuth';
+
 // ----------------------------------------------------------------------------
 // TYPE DEFINITIONS - Discogs API Response Interfaces
 // ----------------------------------------------------------------------------
@@ -70,6 +82,47 @@ export interface DiscogsSearchResponse {
   };
 }
 
+// Structured search parameters for the /database/search endpoint
+// Field names are camelCase here and mapped to Discogs' snake_case on request
+export interface DiscogsSearchParams {
+  query?: string;
+  type?: 'release' | 'master' | 'artist' | 'label';
+  artist?: string;
+  releaseTitle?: string;
+  label?: string;
+  year?: string;
+  format?: string;
+  country?: string;
+  genre?: string;
+  style?: string;
+  track?: string;
+  credit?: string;
+  catno?: string;
+  barcode?: string;
+  sort?: 'year' | 'title' | 'format';
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Maps DiscogsSearchParams keys to Discogs query parameter names
+const SEARCH_PARAM_NAMES: Record<keyof DiscogsSearchParams, string> = {
+  query: 'q',
+  type: 'type',
+  artist: 'artist',
+  releaseTitle: 'release_title',
+  label: 'label',
+  year: 'year',
+  format: 'format',
+  country: 'country',
+  genre: 'genre',
+  style: 'style',
+  track: 'track',
+  credit: 'credit',
+  catno: 'catno',
+  barcode: 'barcode',
+  sort: 'sort',
+  sortOrder: 'sort_order',
+};
+
 // Detailed release information returned from the /releases/{id} endpoint
 // Contains complete metadata including tracklist, images, and identifiers
 export interface DiscogsReleaseDetails {
@@ -110,52 +163,190 @@ export interface DiscogsReleaseDetails {
   identifiers?: Array<{
     type: string;
     value: string;
+    description?: string;
   }>;
   notes?: string;
   uri?: string;
   resource_url?: string;
 }
 
+// One copy of a release in a collection folder, from the
+// /users/{username}/collection/folders/{folder_id}/releases endpoint.
+// The same release appears once per copy, each with its own instance_id.
+export interface DiscogsCollectionItem {
+  id: number;
+  instance_id: number;
+  folder_id: number;
+  rating: number;
+  date_added: string;
+  basic_information: {
+    id: number;
+    title: string;
+    year: number;
+    thumb: string;
+    cover_image: string;
+    resource_url: string;
+    master_id?: number;
+    artists: DiscogsReleaseDetails['artists'];
+    labels: DiscogsReleaseDetails['labels'];
+    formats: DiscogsReleaseDetails['formats'];
+    genres?: string[];
+    styles?: string[];
+  };
+}
+
+// Paginated response from the collection folder releases endpoint
+export interface DiscogsCollectionResponse {
+  releases: DiscogsCollectionItem[];
+  pagination: DiscogsSearchResponse['pagination'];
+}
+
+// Entry from the /users/{username}/wants endpoint. `id` is the release ID.
+export interface DiscogsWant {
+  id: number;
+  rating: number;
+  notes?: string;
+  date_added: string;
+  resource_url: string;
+  basic_information: DiscogsCollectionItem['basic_information'];
+}
+
+// Paginated response from the wantlist endpoint
+export interface DiscogsWantlistResponse {
+  wants: DiscogsWant[];
+  pagination: DiscogsSearchResponse['pagination'];
+}
+
+// Amount in a marketplace currency
+export interface DiscogsPrice {
+  currency: string;
+  value: number;
+}
+
+// Response from /marketplace/price_suggestions/{release_id}: a suggested
+// price per media condition, in the user's seller currency. Requires the
+// user to have filled in their seller settings.
+export type DiscogsPriceSuggestions = Partial<Record<MediaCondition, DiscogsPrice>>;
+
+// Response from /marketplace/stats/{release_id}
+export interface DiscogsMarketplaceStats {
+  lowest_price: DiscogsPrice | null;
+  num_for_sale: number | null;
+  blocked_from_sale: boolean;
+}
+
+// Folder in a user's collection. Folder 0 ("All") and 1 ("Uncategorized")
+// always exist; releases can't be added to folder 0.
+export interface DiscogsCollectionFolder {
+  id: number;
+  name: string;
+  count: number;
+  resource_url: string;
+}
+
+// User-defined note field on collection instances (e.g. "Notes", "Media Condition")
+export interface DiscogsCollectionField {
+  id: number;
+  name: string;
+  type: 'dropdown' | 'textarea';
+  position: number;
+  public: boolean;
+  options?: string[];
+}
+
+// Identifies one copy of a release in a collection
+export interface DiscogsCollectionInstance {
+  folderId: number;
+  releaseId: number;
+  instanceId: number;
+}
+
+// Authenticated user returned from the /oauth/identity endpoint
+export interface DiscogsIdentity {
+  id: number;
+  username: string;
+  resource_url: string;
+  consumer_name: string;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Per-request overrides for the core request method
+interface RequestOptions {
+  method?: HttpMethod;
+  // Sent as JSON
+  body?: unknown;
+  // Authenticate with these credentials instead of the configured ones (used
+  // to validate credentials before saving them)
+  credentials?: DiscogsCredentials;
+}
+
 // ----------------------------------------------------------------------------
 // DISCOGS API CLIENT CLASS
 // ----------------------------------------------------------------------------
 // Main class that handles all communication with the Discogs API
-// Supports Personal Access Token authentication
+// Requests are signed by a DiscogsCredentials strategy (personal access token
+// or OAuth 1.0a, see discogsAuth.ts), applied from Settings through
+// discogsAccount.ts.
 class DiscogsAPI {
-  private baseUrl = 'https://api.discogs.com';
-  private token: string | null = null;
+  private baseUrl = DISCOGS_API_URL;
+  private credentials: DiscogsCredentials | null = null;
+  private scheduler = new RequestScheduler();
+  // Cache keys currently being refreshed in the background
+  private revalidating = new Set<string>();
 
-  constructor() {
-    // Initialize with credentials from environment variables
-    this.token = process.env.EXPO_PUBLIC_DISCOGS_TOKEN || null;
+  /**
+   * Set authentication credentials, or pass null to remove them
+   */
+  setCredentials(credentials: DiscogsCredentials | null) {
+    this.credentials = credentials;
   }
 
   /**
-   * Set authentication credentials manually
+   * Authenticate with a personal access token, or pass null to sign out
    */
-  setToken(token: string) {
-    this.token = token;
+  setToken(token: string | null) {
+    this.setCredentials(token ? new TokenCredentials(token) : null);
   }
 
   /**
    * Check if API is configured
    */
   isConfigured(): boolean {
-    return !!this.token;
+    return !!this.credentials;
+  }
+
+  /**
+   * Current request queue and rate-limit state
+   */
+  getRequestState(): SchedulerState {
+    return this.scheduler.getState();
+  }
+
+  /**
+   * Listen for queue/throttle changes, e.g. to show "waiting for Discogs…"
+   * @returns Unsubscribe function
+   */
+  onRequestStateChange(listener: (state: SchedulerState) => void): () => void {
+    return this.scheduler.subscribe(listener);
   }
 
   /**
    * Get authentication headers for API requests
-   * Adds Authorization header if using Personal Access Token
+   * OAuth signatures cover the method and full URL, so both are required
    */
-  private getAuthHeaders(): HeadersInit {
+  private getAuthHeaders(
+    method: string,
+    url: string,
+    credentials: DiscogsCredentials | null = this.credentials
+  ): HeadersInit {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
-      'User-Agent': 'VinylCollectionApp/1.0',
+      'User-Agent': DISCOGS_USER_AGENT,
     };
 
-    if (this.token) {
-      headers['Authorization'] = `Discogs token=${this.token}`;
+    if (credentials) {
+      headers['Authorization'] = credentials.getAuthorizationHeader(method, url);
     }
 
     return headers;
@@ -164,13 +355,23 @@ class DiscogsAPI {
   /**
    * Core HTTP request method - handles all API communication
    *
+   * Requests are queued by the scheduler; 429 and 5xx responses are
+   * retried with backoff before an error is thrown. POSTs are not retried
+   * after a 5xx since they may have created something.
+   *
    * @param endpoint - API endpoint path (e.g., '/database/search')
    * @param params - Optional query parameters
-   * @returns Parsed JSON response
-   * @throws Error if API returns non-200 status or request fails
+   * @param options - Method, JSON body and per-request overrides
+   * @returns Parsed JSON response, or undefined for 204 No Content
+   * @throws Error if API returns non-2xx status or request fails
    */
-  private async request<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    if (!this.isConfigured()) {
+  private async request<T>(
+    endpoint: string,
+    params?: Record<string, string>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const credentials = options.credentials ?? this.credentials;
+    if (!credentials) {
       throw new Error('Discogs API not configured. Please provide authentication credentials.');
     }
 
@@ -183,11 +384,20 @@ class DiscogsAPI {
       });
     }
 
+    const method = options.method ?? 'GET';
+    const body = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+
     try {
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
+      // Headers are built per attempt so retries get a fresh OAuth nonce
+      const response = await this.scheduler.schedule(
+        () =>
+          fetch(url.toString(), {
+            method,
+            headers: this.getAuthHeaders(method, url.toString(), credentials),
+            body,
+          }),
+        { idempotent: method !== 'POST' }
+      );
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -198,6 +408,9 @@ class DiscogsAPI {
         );
       }
 
+      if (response.status === 204) {
+        return undefined as T;
+      }
       return await response.json();
     } catch (error) {
       if (error instanceof Error) {
@@ -207,37 +420,98 @@ class DiscogsAPI {
     }
   }
 
+  /**
+   * Cached variant of request() with stale-while-revalidate semantics:
+   * fresh entries are returned directly; stale entries are returned
+   * immediately (so the app works offline) and refreshed in the background.
+   */
+  private async cachedRequest<T>(
+    resource: CacheResource,
+    endpoint: string,
+    params?: Record<string, string>
+  ): Promise<T> {
+    const key = buildCacheKey(endpoint, params);
+    const cached = await discogsCache.get<T>(key);
+
+    if (cached) {
+      if (cached.isStale && !this.revalidating.has(key) && this.isConfigured()) {
+        this.revalidating.add(key);
+        this.request<T>(endpoint, params)
+          .then(value => discogsCache.set(key, resource, value))
+          .catch(error => console.warn('Background Discogs refresh failed:', error))
+          .finally(() => this.revalidating.delete(key));
+      }
+      return cached.value;
+    }
+
+    const value = await this.request<T>(endpoint, params);
+    await discogsCache.set(key, resource, value);
+    return value;
+  }
+
+  /**
+   * Remove every cached Discogs response
+   */
+  async clearCache(): Promise<void> {
+    await discogsCache.clear();
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return discogsCache.getStats();
+  }
+
   // ------------------------------------------------------------------------
   // PUBLIC API METHODS
   // ------------------------------------------------------------------------
   // These methods are called by components to interact with Discogs
 
+  /**
+   * Get the user the credentials belong to (uses /oauth/identity endpoint)
+   *
+   * @param credentials - Credentials to check instead of the configured ones
+   * @returns Username and account ID
+   * @throws Error if the credentials are invalid
+   */
+  async getIdentity(credentials?: DiscogsCredentials): Promise<DiscogsIdentity> {
+    return this.request<DiscogsIdentity>('/oauth/identity', undefined, { credentials });
+  }
+
   /**
    * Search the Discogs database (uses /database/search endpoint)
    *
-   * @param query - Search query string
-   * @param type - Filter by type (release, master, artist, label)
+   * @param query - Search query string, or structured search parameters
+   * @param type - Filter by type (release, master, artist, label); overrides params.type
    * @param page - Page number for pagination
    * @param perPage - Results per page
    * @returns Search results with pagination metadata
    */
   async search(
-    query: string,
+    query: string | DiscogsSearchParams,
     type?: 'release' | 'master' | 'artist' | 'label',
     page: number = 1,
     perPage: number = 20
   ): Promise<DiscogsSearchResponse> {
+    const searchParams: DiscogsSearchParams =
+      typeof query === 'string' ? { query } : { ...query };
+
+    if (type) {
+      searchParams.type = type;
+    }
+
     const params: Record<string, string> = {
-      q: query,
       page: page.toString(),
       per_page: perPage.toString(),
     };
 
-    if (type) {
-      params.type = type;
-    }
+    // Only send fields that were actually filled in
+    (Object.keys(searchParams) as Array<keyof DiscogsSearchParams>).forEach(key => {
+      const value = searchParams[key]?.trim();
+      if (value) {
+        params[SEARCH_PARAM_NAMES[key]] = value;
+      }
+    });
 
-    return this.request<DiscogsSearchResponse>('/database/search', params);
+    return this.cachedRequest<DiscogsSearchResponse>('search', '/database/search', params);
   }
 
   /**
@@ -256,14 +530,14 @@ class DiscogsAPI {
    * @returns Complete release details
    */
   async getRelease(releaseId: number): Promise<DiscogsReleaseDetails> {
-    return this.request<DiscogsReleaseDetails>(`/releases/${releaseId}`);
+    return this.cachedRequest<DiscogsReleaseDetails>('release', `/releases/${releaseId}`);
   }
 
   /**
    * Get detailed information about a master release
    */
   async getMasterRelease(masterId: number): Promise<any> {
-    return this.request(`/masters/${masterId}`);
+    return this.cachedRequest('master', `/masters/${masterId}`);
   }
 
   /**
@@ -274,12 +548,232 @@ class DiscogsAPI {
    * @returns Search results matching the barcode
    */
   async searchByBarcode(barcode: string): Promise<DiscogsSearchResponse> {
-    return this.request<DiscogsSearchResponse>('/database/search', {
+    return this.cachedRequest<DiscogsSearchResponse>('search', '/database/search', {
       barcode: barcode,
       type: 'release',
     });
   }
 
+  /**
+   * Get one page of a user's collection folder. Not cached: the collection
+   * changes as the user edits it on Discogs.
+   *
+   * Sorted by date added (oldest first) so pages stay stable while new
+   * releases are added during a long import.
+   *
+   * @param username - Discogs username
+   * @param folderId - Folder ID; 0 is the "All" folder
+   * @param page - Page number for pagination
+   * @param perPage - Items per page (Discogs allows up to 100)
+   */
+  async getCollectionReleases(
+    username: string,
+    folderId: number = 0,
+    page: number = 1,
+    perPage: number = 100
+  ): Promise<DiscogsCollectionResponse> {
+    return this.request<DiscogsCollectionResponse>(
+      `/users/${encodeURIComponent(username)}/collection/folders/${folderId}/releases`,
+      {
+        page: page.toString(),
+        per_page: perPage.toString(),
+        sort: 'added',
+        sort_order: 'asc',
+      }
+    );
+  }
+
+  /**
+   * List the folders in a user's collection
+   */
+  async getCollectionFolders(username: string): Promise<DiscogsCollectionFolder[]> {
+    const response = await this.request<{ folders: DiscogsCollectionFolder[] }>(
+      `/users/${encodeURIComponent(username)}/collection/folders`
+    );
+    return response.folders;
+  }
+
+  /**
+   * Add a release to a collection folder. Each call adds another copy.
+   *
+   * @param folderId - Target folder; defaults to 1 ("Uncategorized")
+   * @returns The new copy's instance ID
+   */
+  async addToCollection(
+    username: string,
+    releaseId: number,
+    folderId: number = 1
+  ): Promise<DiscogsCollectionInstance> {
+    const response = await this.request<{ instance_id: number; resource_url: string }>(
+      `/users/${encodeURIComponent(username)}/collection/folders/${folderId}/releases/${releaseId}`,
+      undefined,
+      { method: 'POST' }
+    );
+    return { folderId, releaseId, instanceId: response.instance_id };
+  }
+
+  /**
+   * Move a copy to another folder
+   *
+   * @returns The instance in its new folder
+   */
+  async moveCollectionInstance(
+    username: string,
+    instance: DiscogsCollectionInstance,
+    toFolderId: number
+  ): Promise<DiscogsCollectionInstance> {
+    await this.request<void>(this.instanceEndpoint(username, instance), undefined, {
+      method: 'POST',
+      body: { folder_id: toFolderId },
+    });
+    return { ...instance, folderId: toFolderId };
+  }
+
+  /**
+   * Remove a copy from the collection
+   */
+  async removeCollectionInstance(
+    username: string,
+    instance: DiscogsCollectionInstance
+  ): Promise<void> {
+    await this.request<void>(this.instanceEndpoint(username, instance), undefined, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Rate a copy from 1 to 5 stars, or 0 to clear the rating
+   */
+  async setInstanceRating(
+    username: string,
+    instance: DiscogsCollectionInstance,
+    rating: number
+  ): Promise<void> {
+    if (!Number.isInteger(rating) || rating < 0 || rating > 5) {
+      throw new Error('Rating must be a whole number from 0 to 5');
+    }
+    await this.request<void>(this.instanceEndpoint(username, instance), undefined, {
+      method: 'POST',
+      body: { rating },
+    });
+  }
+
+  /**
+   * List the user's collection note fields
+   */
+  async getCollectionFields(username: string): Promise<DiscogsCollectionField[]> {
+    const response = await this.request<{ fields: DiscogsCollectionField[] }>(
+      `/users/${encodeURIComponent(username)}/collection/fields`
+    );
+    return response.fields;
+  }
+
+  /**
+   * Set the value of a note field on a copy
+   */
+  async setInstanceField(
+    username: string,
+    instance: DiscogsCollectionInstance,
+    fieldId: number,
+    value: string
+  ): Promise<void> {
+    await this.request<void>(
+      `${this.instanceEndpoint(username, instance)}/fields/${fieldId}`,
+      undefined,
+      { method: 'POST', body: { value } }
+    );
+  }
+
+  /**
+   * Set the free-text "Notes" field on a copy
+   *
+   * @throws Error if the user has removed the Notes field on Discogs
+   */
+  async setInstanceNotes(
+    username: string,
+    instance: DiscogsCollectionInstance,
+    notes: string
+  ): Promise<void> {
+    const fields = await this.getCollectionFields(username);
+    const notesField = fields.find(field => field.type === 'textarea' && field.name === 'Notes');
+    if (!notesField) {
+      throw new Error('This Discogs collection has no Notes field');
+    }
+    await this.setInstanceField(username, instance, notesField.id, notes);
+  }
+
+  private instanceEndpoint(username: string, instance: DiscogsCollectionInstance): string {
+    return (
+      `/users/${encodeURIComponent(username)}/collection/folders/${instance.folderId}` +
+      `/releases/${instance.releaseId}/instances/${instance.instanceId}`
+    );
+  }
+
+  /**
+   * Suggested selling price per condition (uses /marketplace/price_suggestions)
+   * Not cached: valuations are snapshots of the current market.
+   *
+   * @throws Error if the user hasn't set up seller settings on Discogs
+   */
+  async getPriceSuggestions(releaseId: number): Promise<DiscogsPriceSuggestions> {
+    return this.request<DiscogsPriceSuggestions>(`/marketplace/price_suggestions/${releaseId}`);
+  }
+
+  /**
+   * Lowest listed price and number for sale (uses /marketplace/stats)
+   *
+   * @param currency - Currency for the lowest price, e.g. 'USD'
+   */
+  async getMarketplaceStats(
+    releaseId: number,
+    currency?: string
+  ): Promise<DiscogsMarketplaceStats> {
+    return this.request<DiscogsMarketplaceStats>(
+      `/marketplace/stats/${releaseId}`,
+      currency ? { curr_abbr: currency } : undefined
+    );
+  }
+
+  /**
+   * Get one page of a user's wantlist. Not cached, like the collection.
+   *
+   * @param username - Discogs username
+   * @param page - Page number for pagination
+   * @param perPage - Items per page (Discogs allows up to 100)
+   */
+  async getWantlist(
+    username: string,
+    page: number = 1,
+    perPage: number = 100
+  ): Promise<DiscogsWantlistResponse> {
+    return this.request<DiscogsWantlistResponse>(`/users/${encodeURIComponent(username)}/wants`, {
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+  }
+
+  /**
+   * Add a release to the wantlist, or update its notes if already wanted
+   */
+  async addToWantlist(username: string, releaseId: number, notes?: string): Promise<DiscogsWant> {
+    return this.request<DiscogsWant>(
+      `/users/${encodeURIComponent(username)}/wants/${releaseId}`,
+      undefined,
+      { method: 'PUT', body: notes !== undefined ? { notes } : undefined }
+    );
+  }
+
+  /**
+   * Remove a release from the wantlist
+   */
+  async removeFromWantlist(username: string, releaseId: number): Promise<void> {
+    await this.request<void>(
+      `/users/${encodeURIComponent(username)}/wants/${releaseId}`,
+      undefined,
+      { method: 'DELETE' }
+    );
+  }
+
   /**
    * Search by catalog number (the label's unique identifier for a release)
    * Found on the spine or back of vinyl records
@@ -289,7 +783,7 @@ class DiscogsAPI {
    * @returns Search results matching the catalog number
    */
   async searchByCatalogNumber(catno: string, page: number = 1): Promise<DiscogsSearchResponse> {
-    return this.request<DiscogsSearchResponse>('/database/search', {
+    return this.cachedRequest<DiscogsSearchResponse>('search', '/database/search', {
       catno: catno,
       type: 'release',
       page: page.toString(),
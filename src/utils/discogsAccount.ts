@@ -0,0 +1,226 @@
+// ============================================================================
+// DISCOGS ACCOUNT - Stores the user's Discogs credentials on the device
+// ============================================================================
+// Either a personal access token or an OAuth access token is kept in the
+// platform keychain/keystore via expo-secure-store and applied to the shared
+// discogsAPI client. Screens subscribe (see useDiscogsAccount) so they react
+// as soon as the user signs in or out in Settings.
+// ============================================================================
+
+import * as SecureStore from 'expo-secure-store';
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import { discogsAPI } from './discogs';
+import {
+  DiscogsCredentials,
+  DiscogsOAuthClient,
+  TokenCredentials,
+  getDiscogsOAuthConfig,
+  parseOAuthCallback,
+} from './discogsAuth';
+
+const ACCOUNT_KEY = 'discogs_account';
+
+// Path of the deep link Discogs redirects to after the user approves the app
+const OAUTH_CALLBACK_PATH = 'oauth/discogs';
+
+export type DiscogsAuthMethod = 'token' | 'oauth';
+
+export interface DiscogsAccountState {
+  // 'loading' until stored credentials have been read at startup
+  status: 'loading' | 'signedOut' | 'signedIn';
+  username: string | null;
+  method: DiscogsAuthMethod | null;
+}
+
+// Shape persisted in SecureStore. Accounts saved before OAuth support have
+// no `method` and are personal access tokens.
+type StoredAccount =
+  | { method?: 'token'; token: string; username: string }
+  | { method: 'oauth'; token: string; tokenSecret: string; username: string };
+
+const SIGNED_OUT: DiscogsAccountState = { status: 'signedOut', username: null, method: null };
+
+/**
+ * Build API credentials for a stored account, or null if it can no longer
+ * be used (an OAuth account without a configured consumer key)
+ */
+function credentialsFor(account: StoredAccount): DiscogsCredentials | null {
+  if (account.method !== 'oauth') {
+    return new TokenCredentials(account.token);
+  }
+
+  const config = getDiscogsOAuthConfig();
+  if (!config) {
+    return null;
+  }
+  return new DiscogsOAuthClient(config).createCredentials({
+    token: account.token,
+    tokenSecret: account.tokenSecret,
+  });
+}
+
+type AccountListener = (state: DiscogsAccountState) => void;
+
+class DiscogsAccount {
+  private state: DiscogsAccountState = { status: 'loading', username: null, method: null };
+  private listeners = new Set<AccountListener>();
+
+  getState(): DiscogsAccountState {
+    return this.state;
+  }
+
+  /**
+   * Listen for sign-in/sign-out
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: AccountListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: DiscogsAccountState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  /**
+   * Read stored credentials and apply them to the API client.
+   * Called once at app startup.
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await SecureStore.getItemAsync(ACCOUNT_KEY);
+      if (!stored) {
+        this.setState(SIGNED_OUT);
+        return;
+      }
+
+      const account: StoredAccount = JSON.parse(stored);
+      const credentials = credentialsFor(account);
+      if (!credentials) {
+        console.warn('Stored Discogs OAuth account needs a consumer key; signing out');
+        this.setState(SIGNED_OUT);
+        return;
+      }
+
+      discogsAPI.setCredentials(credentials);
+      this.setState({
+        status: 'signedIn',
+        username: account.username,
+        method: account.method ?? 'token',
+      });
+    } catch (error) {
+      console.error('Error reading Discogs credentials:', error);
+      this.setState(SIGNED_OUT);
+    }
+  }
+
+  /**
+   * Username of the signed-in account, for user-specific endpoints
+   *
+   * @throws Error if nobody is signed in
+   */
+  requireUsername(): string {
+    if (this.state.status !== 'signedIn' || !this.state.username) {
+      throw new Error('Sign in to Discogs in Settings first');
+    }
+    return this.state.username;
+  }
+
+  /**
+   * Whether "Sign in with Discogs" is available (a consumer key is configured)
+   */
+  isOAuthAvailable(): boolean {
+    return getDiscogsOAuthConfig() !== null;
+  }
+
+  /**
+   * Validate a personal access token against /oauth/identity, then store it
+   *
+   * @returns The Discogs username the token belongs to
+   * @throws Error if the token is rejected by Discogs or can't be stored
+   */
+  async signInWithToken(token: string): Promise<string> {
+    const trimmed = token.trim();
+    if (!trimmed) {
+      throw new Error('Please paste a personal access token');
+    }
+
+    const credentials = new TokenCredentials(trimmed);
+    const identity = await discogsAPI.getIdentity(credentials);
+    await this.save(
+      { method: 'token', token: trimmed, username: identity.username },
+      credentials
+    );
+    return identity.username;
+  }
+
+  /**
+   * Run the OAuth 1.0a flow: get a request token, let the user approve the
+   * app in the browser, then exchange the verifier for an access token
+   *
+   * @returns The Discogs username, or null if the user closed the browser
+   * @throws Error if OAuth isn't configured or any step is rejected
+   */
+  async signInWithOAuth(): Promise<string | null> {
+    const config = getDiscogsOAuthConfig();
+    if (!config) {
+      throw new Error('Discogs sign-in is not configured. Set a consumer key and secret.');
+    }
+
+    const client = new DiscogsOAuthClient(config);
+    const callbackUrl = Linking.createURL(OAUTH_CALLBACK_PATH);
+    const requestToken = await client.getRequestToken(callbackUrl);
+
+    const result = await WebBrowser.openAuthSessionAsync(
+      client.getAuthorizeUrl(requestToken),
+      callbackUrl
+    );
+    if (result.type !== 'success') {
+      return null;
+    }
+
+    const callback = parseOAuthCallback(result.url);
+    if (callback.token !== requestToken.token || !callback.verifier) {
+      throw new Error('Discogs did not authorize the app');
+    }
+
+    const accessToken = await client.getAccessToken(requestToken, callback.verifier);
+    const credentials = client.createCredentials(accessToken);
+    const identity = await discogsAPI.getIdentity(credentials);
+    await this.save(
+      {
+        method: 'oauth',
+        token: accessToken.token,
+        tokenSecret: accessToken.tokenSecret,
+        username: identity.username,
+      },
+      credentials
+    );
+    return identity.username;
+  }
+
+  /**
+   * Remove stored credentials from the device
+   */
+  async signOut(): Promise<void> {
+    await SecureStore.deleteItemAsync(ACCOUNT_KEY);
+    discogsAPI.setCredentials(null);
+    this.setState(SIGNED_OUT);
+  }
+
+  private async save(account: StoredAccount, credentials: DiscogsCredentials): Promise<void> {
+    await SecureStore.setItemAsync(ACCOUNT_KEY, JSON.stringify(account));
+    discogsAPI.setCredentials(credentials);
+    this.setState({
+      status: 'signedIn',
+      username: account.username,
+      method: account.method ?? 'token',
+    });
+  }
+}
+
+export const discogsAccount = new DiscogsAccount();
@@ -0,0 +1,195 @@
+// ============================================================================
+// DISCOGS AUTH - Credential strategies and the OAuth 1.0a flow
+// ============================================================================
+// DiscogsAPI signs every request through a DiscogsCredentials strategy:
+// - TokenCredentials: personal access token pasted in Settings
+// - OAuthCredentials: access token obtained through the OAuth 1.0a flow
+//
+// OAuth flow (https://www.discogs.com/developers#page:authentication):
+// 1. getRequestToken()  - GET  /oauth/request_token with our callback URL
+// 2. getAuthorizeUrl()  - user approves the app in the browser
+// 3. getAccessToken()   - POST /oauth/access_token with the returned verifier
+//
+// Endpoints come from env so the flow can be run against a local stub
+// OAuth server during development:
+//   EXPO_PUBLIC_DISCOGS_CONSUMER_KEY / EXPO_PUBLIC_DISCOGS_CONSUMER_SECRET
+//   EXPO_PUBLIC_DISCOGS_API_URL        (default https://api.discogs.com)
+//   EXPO_PUBLIC_DISCOGS_AUTHORIZE_URL  (default https://www.discogs.com/oauth/authorize)
+//   EXPO_PUBLIC_DISCOGS_OAUTH_SIGNATURE_METHOD (HMAC-SHA1 or PLAINTEXT)
+// scripts/oauth-stub.js is such a server (npm run oauth:stub), and
+// npm run check:oauth runs this flow against it.
+// ============================================================================
+
+import { buildOAuthHeader, OAuthSignatureMethod } from './oauth1';
+
+export const DISCOGS_API_URL = process.env.EXPO_PUBLIC_DISCOGS_API_URL || 'https://api.discogs.com';
+
+const DISCOGS_AUTHORIZE_URL =
+  process.env.EXPO_PUBLIC_DISCOGS_AUTHORIZE_URL || 'https://www.discogs.com/oauth/authorize';
+
+export const DISCOGS_USER_AGENT = 'VinylCollectionApp/1.0';
+
+/**
+ * Produces the Authorization header for a Discogs request
+ */
+export interface DiscogsCredentials {
+  getAuthorizationHeader(method: string, url: string): string;
+}
+
+export class TokenCredentials implements DiscogsCredentials {
+  constructor(private token: string) {}
+
+  getAuthorizationHeader(): string {
+    return `Discogs token=${this.token}`;
+  }
+}
+
+export interface DiscogsOAuthConfig {
+  consumerKey: string;
+  consumerSecret: string;
+  signatureMethod: OAuthSignatureMethod;
+  requestTokenUrl: string;
+  authorizeUrl: string;
+  accessTokenUrl: string;
+}
+
+// Token/secret pair returned by the request and access token endpoints
+export interface OAuthTokenPair {
+  token: string;
+  tokenSecret: string;
+}
+
+export class OAuthCredentials implements DiscogsCredentials {
+  constructor(
+    private config: DiscogsOAuthConfig,
+    private accessToken: OAuthTokenPair
+  ) {}
+
+  getAuthorizationHeader(method: string, url: string): string {
+    return buildOAuthHeader(method, url, {
+      consumerKey: this.config.consumerKey,
+      consumerSecret: this.config.consumerSecret,
+      token: this.accessToken.token,
+      tokenSecret: this.accessToken.tokenSecret,
+      signatureMethod: this.config.signatureMethod,
+    });
+  }
+}
+
+/**
+ * OAuth settings from env, or null when no consumer key is configured
+ * (the app then only offers personal access tokens)
+ */
+export function getDiscogsOAuthConfig(): DiscogsOAuthConfig | null {
+  const consumerKey = process.env.EXPO_PUBLIC_DISCOGS_CONSUMER_KEY;
+  const consumerSecret = process.env.EXPO_PUBLIC_DISCOGS_CONSUMER_SECRET;
+  if (!consumerKey || !consumerSecret) {
+    return null;
+  }
+
+  return {
+    consumerKey,
+    consumerSecret,
+    signatureMethod:
+      process.env.EXPO_PUBLIC_DISCOGS_OAUTH_SIGNATURE_METHOD === 'PLAINTEXT'
+        ? 'PLAINTEXT'
+        : 'HMAC-SHA1',
+    requestTokenUrl: `${DISCOGS_API_URL}/oauth/request_token`,
+    authorizeUrl: DISCOGS_AUTHORIZE_URL,
+    accessTokenUrl: `${DISCOGS_API_URL}/oauth/access_token`,
+  };
+}
+
+/**
+ * Parse oauth_token and oauth_verifier from the browser redirect
+ */
+export function parseOAuthCallback(url: string): { token: string | null; verifier: string | null } {
+  const params = new URL(url).searchParams;
+  return {
+    token: params.get('oauth_token'),
+    verifier: params.get('oauth_verifier'),
+  };
+}
+
+export class DiscogsOAuthClient {
+  constructor(private config: DiscogsOAuthConfig) {}
+
+  /**
+   * Step 1: obtain a temporary request token
+   *
+   * @param callbackUrl - Deep link the browser redirects to after approval
+   * @throws Error if Discogs rejects the consumer key or callback
+   */
+  async getRequestToken(callbackUrl: string): Promise<OAuthTokenPair> {
+    return this.tokenRequest('GET', this.config.requestTokenUrl, {
+      extraOAuthParams: { oauth_callback: callbackUrl },
+    });
+  }
+
+  /**
+   * Step 2: page where the user approves the app
+   */
+  getAuthorizeUrl(requestToken: OAuthTokenPair): string {
+    return `${this.config.authorizeUrl}?oauth_token=${encodeURIComponent(requestToken.token)}`;
+  }
+
+  /**
+   * Step 3: exchange the approved request token for an access token
+   *
+   * @param requestToken - Token pair from getRequestToken()
+   * @param verifier - oauth_verifier from the callback URL
+   * @throws Error if the verifier is rejected
+   */
+  async getAccessToken(requestToken: OAuthTokenPair, verifier: string): Promise<OAuthTokenPair> {
+    return this.tokenRequest('POST', this.config.accessTokenUrl, {
+      token: requestToken.token,
+      tokenSecret: requestToken.tokenSecret,
+      extraOAuthParams: { oauth_verifier: verifier },
+    });
+  }
+
+  /**
+   * Credentials for signing API requests with an access token
+   */
+  createCredentials(accessToken: OAuthTokenPair): OAuthCredentials {
+    return new OAuthCredentials(this.config, accessToken);
+  }
+
+  /**
+   * Signed request to one of the token endpoints. Both respond with a
+   * form-encoded body containing oauth_token and oauth_token_secret.
+   */
+  private async tokenRequest(
+    method: 'GET' | 'POST',
+    url: string,
+    signing: { token?: string; tokenSecret?: string; extraOAuthParams: Record<string, string> }
+  ): Promise<OAuthTokenPair> {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': DISCOGS_USER_AGENT,
+        Authorization: buildOAuthHeader(method, url, {
+          consumerKey: this.config.consumerKey,
+          consumerSecret: this.config.consumerSecret,
+          signatureMethod: this.config.signatureMethod,
+          ...signing,
+        }),
+      },
+    });
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new Error(`Discogs OAuth error: ${response.status} ${response.statusText}. ${body}`);
+    }
+
+    const params = new URLSearchParams(body);
+    const token = params.get('oauth_token');
+    const tokenSecret = params.get('oauth_token_secret');
+    if (!token || !tokenSecret) {
+      throw new Error('Discogs OAuth error: response did not include a token');
+    }
+
+    return { token, tokenSecret };
+  }
+}
@@ -0,0 +1,173 @@
+// ============================================================================
+// DISCOGS RESPONSE CACHE - Persistent cache for releases, masters and searches
+// ============================================================================
+// Responses are stored in AsyncStorage, one key per entry, plus a small index
+// with timestamps used for expiry and LRU eviction:
+//   discogs_cache_index        → { [cacheKey]: { resource, storedAt, lastAccess } }
+//   discogs_cache:<cacheKey>   → JSON response body
+//
+// Entries past their TTL are still returned (marked stale) so the app keeps
+// working offline; DiscogsAPI refreshes them in the background.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type CacheResource = 'release' | 'master' | 'search';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Release and master data rarely changes; search results shift as Discogs
+// adds submissions
+export const CACHE_TTL_MS: Record<CacheResource, number> = {
+  release: 7 * DAY,
+  master: 7 * DAY,
+  search: 1 * HOUR,
+};
+
+// Least recently used entries beyond this are evicted
+export const MAX_CACHE_ENTRIES = 300;
+
+const INDEX_KEY = 'discogs_cache_index';
+const ENTRY_PREFIX = 'discogs_cache:';
+// Access times are batched instead of rewriting the index on every read
+const INDEX_SAVE_DELAY_MS = 2000;
+
+interface IndexEntry {
+  resource: CacheResource;
+  storedAt: number;
+  lastAccess: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  storedAt: number;
+  isStale: boolean;
+}
+
+export interface CacheStats {
+  entries: number;
+  byResource: Record<CacheResource, number>;
+}
+
+class DiscogsCache {
+  private index: Record<string, IndexEntry> | null = null;
+  private indexSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private async loadIndex(): Promise<Record<string, IndexEntry>> {
+    if (this.index) return this.index;
+
+    try {
+      const stored = await AsyncStorage.getItem(INDEX_KEY);
+      this.index = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading Discogs cache index:', error);
+      this.index = {};
+    }
+    return this.index!;
+  }
+
+  private async saveIndex() {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = null;
+    }
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.index || {}));
+  }
+
+  private scheduleIndexSave() {
+    if (this.indexSaveTimer) return;
+    this.indexSaveTimer = setTimeout(() => {
+      this.indexSaveTimer = null;
+      this.saveIndex().catch(error => console.error('Error saving Discogs cache index:', error));
+    }, INDEX_SAVE_DELAY_MS);
+  }
+
+  /**
+   * Look up a cached response. Expired entries are returned with isStale set.
+   */
+  async get<T>(key: string): Promise<CachedValue<T> | null> {
+    const index = await this.loadIndex();
+    const entry = index[key];
+    if (!entry) return null;
+
+    try {
+      const stored = await AsyncStorage.getItem(ENTRY_PREFIX + key);
+      if (!stored) {
+        delete index[key];
+        this.scheduleIndexSave();
+        return null;
+      }
+
+      entry.lastAccess = Date.now();
+      this.scheduleIndexSave();
+
+      return {
+        value: JSON.parse(stored),
+        storedAt: entry.storedAt,
+        isStale: Date.now() - entry.storedAt > CACHE_TTL_MS[entry.resource],
+      };
+    } catch (error) {
+      console.error('Error reading Discogs cache entry:', error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, resource: CacheResource, value: T): Promise<void> {
+    const index = await this.loadIndex();
+    const now = Date.now();
+
+    try {
+      await AsyncStorage.setItem(ENTRY_PREFIX + key, JSON.stringify(value));
+      index[key] = { resource, storedAt: now, lastAccess: now };
+      await this.evict();
+      await this.saveIndex();
+    } catch (error) {
+      // A full cache must never break the request that produced the value
+      console.error('Error writing Discogs cache entry:', error);
+    }
+  }
+
+  // Drop least recently used entries beyond MAX_CACHE_ENTRIES
+  private async evict() {
+    const index = await this.loadIndex();
+    const keys = Object.keys(index);
+    if (keys.length <= MAX_CACHE_ENTRIES) return;
+
+    const evicted = keys
+      .sort((a, b) => index[a].lastAccess - index[b].lastAccess)
+      .slice(0, keys.length - MAX_CACHE_ENTRIES);
+
+    evicted.forEach(key => delete index[key]);
+    await AsyncStorage.multiRemove(evicted.map(key => ENTRY_PREFIX + key));
+  }
+
+  async clear(): Promise<void> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    const cacheKeys = allKeys.filter(key => key === INDEX_KEY || key.startsWith(ENTRY_PREFIX));
+    await AsyncStorage.multiRemove(cacheKeys);
+    this.index = {};
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const index = await this.loadIndex();
+    const byResource: Record<CacheResource, number> = { release: 0, master: 0, search: 0 };
+    Object.values(index).forEach(entry => {
+      byResource[entry.resource]++;
+    });
+    return { entries: Object.keys(index).length, byResource };
+  }
+}
+
+/**
+ * Build a stable cache key from an endpoint and its query parameters
+ */
+export function buildCacheKey(endpoint: string, params?: Record<string, string>): string {
+  const query = Object.keys(params || {})
+    .sort()
+    .map(key => `${key}=${params![key]}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+export const discogsCache = new DiscogsCache();
@@ -0,0 +1,284 @@
+// ============================================================================
+// DISCOGS COLLECTION IMPORT - Copies the user's Discogs collection locally
+// ============================================================================
+// Pages through /users/{username}/collection/folders/{id}/releases and saves
+// each page in a single write. Records already in the local collection are
+// matched by Discogs instance ID, then by release ID (discogsId), and are
+// either skipped or merged depending on the chosen mode. Further copies of
+// a release that's already in the collection are added as copies of it
+// (copyOf), so the duplicates scan doesn't report them.
+//
+// A checkpoint is stored in AsyncStorage after every page, so an import that
+// is cancelled, fails or is cut short by the app closing can be resumed
+// from the next page. Re-importing a page is harmless: its records are
+// matched by instance ID.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { VinylData, VinylRecord } from '../types';
+import { api } from './api';
+import { discogsAPI, DiscogsCollectionItem } from './discogs';
+import {
+  collectionItemToVinylData,
+  fillMissingFields,
+  ImportedRecordInput,
+  NewRecordInput,
+} from './discogsMapping';
+
+const CHECKPOINT_KEY = 'discogs_import_checkpoint';
+const PAGE_SIZE = 100;
+
+// What to do with collection items already present locally:
+// - skip: leave the local record untouched
+// - merge: fill empty local fields from Discogs and link the Discogs copy
+export type ImportMode = 'skip' | 'merge';
+
+export interface ImportCheckpoint {
+  username: string;
+  folderId: number;
+  mode: ImportMode;
+  // Last page fully imported (0 before the first page)
+  page: number;
+  pages: number;
+  // Collection items seen so far, out of total
+  processed: number;
+  total: number;
+  added: number;
+  merged: number;
+  skipped: number;
+  startedAt: number;
+}
+
+export interface DiscogsImportState {
+  // 'interrupted' means a checkpoint is waiting to be resumed
+  status: 'idle' | 'running' | 'stopping' | 'interrupted' | 'done';
+  checkpoint: ImportCheckpoint | null;
+  error: string | null;
+}
+
+type ImportListener = (state: DiscogsImportState) => void;
+
+type RecordUpdates = Partial<VinylData> & { imageUrl?: string };
+
+/**
+ * Fill fields the local record is missing and link the Discogs copy
+ */
+function mergeImported(existing: VinylRecord, imported: NewRecordInput): RecordUpdates {
+  return {
+    ...fillMissingFields(existing, imported),
+    discogsFolderId: imported.discogsFolderId,
+    discogsInstanceId: imported.discogsInstanceId,
+  };
+}
+
+class DiscogsImporter {
+  private state: DiscogsImportState = { status: 'idle', checkpoint: null, error: null };
+  private listeners = new Set<ImportListener>();
+  private stopRequested = false;
+
+  getState(): DiscogsImportState {
+    return this.state;
+  }
+
+  /**
+   * Listen for progress updates
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ImportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: DiscogsImportState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  /**
+   * Read a checkpoint left by an unfinished import. Called at app startup.
+   */
+  async load(): Promise<void> {
+    if (this.state.status === 'running' || this.state.status === 'stopping') {
+      return;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(CHECKPOINT_KEY);
+      if (stored) {
+        this.setState({ status: 'interrupted', checkpoint: JSON.parse(stored), error: null });
+      }
+    } catch (error) {
+      console.error('Error reading import checkpoint:', error);
+    }
+  }
+
+  /**
+   * Import a collection folder from the first page
+   *
+   * @param username - Discogs username whose collection to import
+   * @param mode - How to handle records already in the local collection
+   * @param folderId - Collection folder; 0 is "All"
+   * @returns Final counts (also when stopped early with cancel())
+   * @throws Error if a page can't be fetched or saved; progress is kept for resume()
+   */
+  async start(username: string, mode: ImportMode, folderId: number = 0): Promise<ImportCheckpoint> {
+    return this.run({
+      username,
+      folderId,
+      mode,
+      page: 0,
+      pages: 0,
+      processed: 0,
+      total: 0,
+      added: 0,
+      merged: 0,
+      skipped: 0,
+      startedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Continue an interrupted import from its checkpoint
+   *
+   * @throws Error if there is nothing to resume or a page fails again
+   */
+  async resume(): Promise<ImportCheckpoint> {
+    if (!this.state.checkpoint || this.state.status !== 'interrupted') {
+      throw new Error('No interrupted import to resume');
+    }
+    return this.run(this.state.checkpoint);
+  }
+
+  /**
+   * Stop after the page currently being imported; the import can be resumed
+   */
+  cancel() {
+    if (this.state.status === 'running') {
+      this.stopRequested = true;
+      this.setState({ ...this.state, status: 'stopping' });
+    }
+  }
+
+  /**
+   * Forget an interrupted import
+   */
+  async discard(): Promise<void> {
+    await AsyncStorage.removeItem(CHECKPOINT_KEY);
+    this.setState({ status: 'idle', checkpoint: null, error: null });
+  }
+
+  private async run(checkpoint: ImportCheckpoint): Promise<ImportCheckpoint> {
+    if (this.state.status === 'running' || this.state.status === 'stopping') {
+      throw new Error('An import is already running');
+    }
+
+    this.stopRequested = false;
+    this.setState({ status: 'running', checkpoint, error: null });
+
+    let current = checkpoint;
+    try {
+      do {
+        if (this.stopRequested) {
+          this.setState({ status: 'interrupted', checkpoint: current, error: null });
+          return current;
+        }
+
+        const response = await discogsAPI.getCollectionReleases(
+          current.username,
+          current.folderId,
+          current.page + 1,
+          PAGE_SIZE
+        );
+        const counts = await this.importPage(response.releases, current.mode);
+
+        current = {
+          ...current,
+          page: response.pagination.page,
+          pages: response.pagination.pages,
+          total: response.pagination.items,
+          processed: current.processed + response.releases.length,
+          added: current.added + counts.added,
+          merged: current.merged + counts.merged,
+          skipped: current.skipped + counts.skipped,
+        };
+        await AsyncStorage.setItem(CHECKPOINT_KEY, JSON.stringify(current));
+        this.setState({ status: this.state.status, checkpoint: current, error: null });
+      } while (current.page < current.pages);
+
+      await AsyncStorage.removeItem(CHECKPOINT_KEY);
+      this.setState({ status: 'done', checkpoint: current, error: null });
+      return current;
+    } catch (error) {
+      console.error('Error importing Discogs collection:', error);
+      this.setState({
+        status: 'interrupted',
+        checkpoint: current,
+        error: error instanceof Error ? error.message : 'Import failed',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Match one page of collection items against local records and save it
+   */
+  private async importPage(
+    items: DiscogsCollectionItem[],
+    mode: ImportMode
+  ): Promise<{ added: number; merged: number; skipped: number }> {
+    // Only records of these releases can match, so use the discogsId index
+    const records = await api.getRecordsByDiscogsIds(items.map(item => item.id));
+
+    // Copies already linked to a local record, and local records for a
+    // release that aren't linked to any copy yet (added through search)
+    const byInstance = new Map<number, VinylRecord>();
+    const unlinked = new Map<number, VinylRecord[]>();
+    // First record of each release, for extra copies to point at
+    const firstOfRelease = new Map<number, string>();
+    records.forEach(record => {
+      if (record.discogsId && !firstOfRelease.has(record.discogsId)) {
+        firstOfRelease.set(record.discogsId, record.id);
+      }
+      if (record.discogsInstanceId) {
+        byInstance.set(record.discogsInstanceId, record);
+      } else if (record.discogsId) {
+        unlinked.set(record.discogsId, [...(unlinked.get(record.discogsId) || []), record]);
+      }
+    });
+
+    const create: ImportedRecordInput[] = [];
+    const update: Array<{ id: string; updates: RecordUpdates }> = [];
+    // Position in `create` of the first new record of each release
+    const createdOfRelease = new Map<number, number>();
+    let skipped = 0;
+
+    items.forEach(item => {
+      const imported = collectionItemToVinylData(item);
+      // Each local record absorbs at most one copy of a release
+      const existing = byInstance.get(item.instance_id) ?? unlinked.get(item.id)?.shift();
+
+      if (!existing) {
+        const copyOf = firstOfRelease.get(item.id);
+        const copyOfCreated = copyOf ? undefined : createdOfRelease.get(item.id);
+        if (!copyOf && copyOfCreated === undefined) {
+          createdOfRelease.set(item.id, create.length);
+        }
+        create.push({ ...imported, copyOf, copyOfCreated });
+      } else if (mode === 'merge') {
+        update.push({ id: existing.id, updates: mergeImported(existing, imported) });
+      } else {
+        skipped++;
+      }
+    });
+
+    if (create.length || update.length) {
+      await api.importRecords({ create, update });
+    }
+
+    return { added: create.length, merged: update.length, skipped };
+  }
+}
+
+export const discogsImporter = new DiscogsImporter();
@@ -0,0 +1,116 @@
+// ============================================================================
+// DISCOGS MAPPING - Converts Discogs releases into collection records
+// ============================================================================
+// Shared by "Add" in search (full release details), the collection importer
+// (the basic release information embedded in collection items) and moving
+// wantlist items into the collection, so all produce records with the same
+// fields. fillMissingFields() is how the importers (Discogs and CSV) merge
+// into records that already exist.
+// ============================================================================
+
+import type { VinylData, VinylRecord, WantlistItem } from '../types';
+import type { DiscogsReleaseDetails, DiscogsCollectionItem } from './discogs';
+import { matrixFromIdentifiers } from './matrix';
+
+// Input accepted by api.createRecord()
+export type NewRecordInput = Partial<VinylData> & { imageUrl?: string };
+
+// Input accepted by api.importRecords(). copyOfCreated is the position, in
+// the same batch, of an earlier new record this one is a copy of.
+export type ImportedRecordInput = NewRecordInput & { copyOfCreated?: number };
+
+// Fields every release source provides; the rest only come with full details
+type ReleaseSource = Pick<
+  DiscogsReleaseDetails,
+  'id' | 'title' | 'artists' | 'labels' | 'formats' | 'genres' | 'styles'
+> &
+  Partial<Pick<DiscogsReleaseDetails, 'year' | 'country' | 'identifiers' | 'images' | 'uri'>>;
+
+const DISCOGS_RELEASE_URL = 'https://www.discogs.com/release';
+
+/**
+ * Map a Discogs release to record fields, including the cover image
+ */
+export function releaseToVinylData(release: ReleaseSource): NewRecordInput {
+  return {
+    artistName: release.artists?.[0]?.name || '',
+    albumName: release.title || '',
+    serialNumber: release.labels?.[0]?.catno || '',
+    matrixRunout: matrixFromIdentifiers(release.identifiers),
+    year: release.year,
+    country: release.country,
+    genre: release.genres,
+    style: release.styles,
+    label: release.labels?.[0]?.name,
+    format: release.formats?.[0]?.name,
+    discogsId: release.id,
+    discogsUrl: release.uri,
+    imageUrl: release.images?.[0]?.uri || release.images?.[0]?.uri150 || undefined,
+  };
+}
+
+/**
+ * Map a collection item, keeping its folder and instance IDs.
+ * Collection items carry no identifiers or country, so matrix data and
+ * country stay empty until the record is edited.
+ */
+export function collectionItemToVinylData(item: DiscogsCollectionItem): NewRecordInput {
+  const release = item.basic_information;
+  return {
+    ...releaseToVinylData({
+      ...release,
+      // Discogs reports unknown years as 0
+      year: release.year || undefined,
+    }),
+    discogsUrl: `${DISCOGS_RELEASE_URL}/${release.id}`,
+    imageUrl: release.cover_image || release.thumb || undefined,
+    discogsFolderId: item.folder_id,
+    discogsInstanceId: item.instance_id,
+  };
+}
+
+/**
+ * Map a wantlist item, used when the full release can't be fetched
+ */
+export function wantlistItemToVinylData(item: WantlistItem): NewRecordInput {
+  return {
+    artistName: item.artistName,
+    albumName: item.albumName,
+    serialNumber: item.catno || '',
+    matrixRunout: [],
+    year: item.year,
+    label: item.label,
+    format: item.format,
+    discogsId: item.discogsId,
+    discogsUrl: `${DISCOGS_RELEASE_URL}/${item.discogsId}`,
+    imageUrl: item.imageUrl || undefined,
+  };
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Updates that fill fields the existing record is missing from an imported
+ * one; never overwrites the user's data
+ */
+export function fillMissingFields(
+  existing: Partial<VinylRecord>,
+  imported: NewRecordInput
+): NewRecordInput {
+  const updates: Record<string, unknown> = {};
+
+  Object.entries(imported).forEach(([key, value]) => {
+    if (!isEmptyValue(value) && isEmptyValue(existing[key as keyof VinylRecord])) {
+      updates[key] = value;
+    }
+  });
+
+  return updates as NewRecordInput;
+}
@@ -0,0 +1,52 @@
+// ============================================================================
+// DISCOGS SYNC - Mirrors local collection changes to the Discogs collection
+// ============================================================================
+// Records with syncToDiscogs set are added to the signed-in user's Discogs
+// collection when created and removed from it when deleted (see api.ts).
+// New copies go to the "Uncategorized" folder.
+// ============================================================================
+
+import type { VinylData } from '../types';
+import { discogsAPI } from './discogs';
+import { discogsAccount } from './discogsAccount';
+
+const UNCATEGORIZED_FOLDER_ID = 1;
+
+/**
+ * Add a record's release to the Discogs collection
+ *
+ * @returns Folder and instance IDs of the new copy, to store on the record
+ * @throws Error if the record has no Discogs release or the request fails
+ */
+export async function addRecordToDiscogs(
+  record: VinylData
+): Promise<Required<Pick<VinylData, 'discogsFolderId' | 'discogsInstanceId'>>> {
+  if (!record.discogsId) {
+    throw new Error('Only records linked to a Discogs release can be synced');
+  }
+
+  const instance = await discogsAPI.addToCollection(
+    discogsAccount.requireUsername(),
+    record.discogsId,
+    UNCATEGORIZED_FOLDER_ID
+  );
+  return { discogsFolderId: instance.folderId, discogsInstanceId: instance.instanceId };
+}
+
+/**
+ * Remove a record's copy from the Discogs collection. Records that were
+ * never added (no instance ID) are left alone.
+ *
+ * @throws Error if the request fails
+ */
+export async function removeRecordFromDiscogs(record: VinylData): Promise<void> {
+  if (!record.discogsId || record.discogsInstanceId === undefined) {
+    return;
+  }
+
+  await discogsAPI.removeCollectionInstance(discogsAccount.requireUsername(), {
+    folderId: record.discogsFolderId ?? UNCATEGORIZED_FOLDER_ID,
+    releaseId: record.discogsId,
+    instanceId: record.discogsInstanceId,
+  });
+}
@@ -0,0 +1,339 @@
+// ============================================================================
+// DUPLICATES - Find records that are already in the collection
+// ============================================================================
+// Two records are duplicates when, from strongest to weakest:
+// - discogsId: they're the same Discogs release
+// - catalog: catalog number and label match, ignoring case, spaces and
+//   punctuation ("CL 1355" = "cl-1355")
+// - similar: artist and album are nearly the same once normalized (accents,
+//   case, punctuation, a leading "The", Discogs' "(2)" suffixes and
+//   "(Remastered)"-style notes are ignored), so OCR typos still match.
+//   Numbers in the album title must match exactly, so "Led Zeppelin II" and
+//   "Led Zeppelin III" aren't duplicates.
+//
+// Records linked to different Discogs releases are never duplicates: they're
+// different pressings of the same album.
+//
+// Keeping both copies of a duplicate sets copyOf on the new record, as do
+// imports and restores that add a record already in the collection. Records
+// linked that way, directly or through a chain of copies, aren't reported
+// again by the collection scan. Existing links are never overwritten.
+// ============================================================================
+
+import type { VinylData, VinylRecord } from '../types';
+import { fillMissingFields, NewRecordInput } from './discogsMapping';
+
+// Dice similarity artist and album each need, and on average, to count as
+// "similar"
+const MIN_SIMILARITY = 0.7;
+const MEAN_SIMILARITY = 0.8;
+
+const ROMAN_NUMERALS = new Set(['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x']);
+
+export type DuplicateKind = 'discogsId' | 'catalog' | 'similar';
+
+export const DUPLICATE_KIND_LABELS: Record<DuplicateKind, string> = {
+  discogsId: 'Same Discogs release',
+  catalog: 'Same catalog number and label',
+  similar: 'Similar artist and album',
+};
+
+// Lower is stronger
+const KIND_STRENGTH: Record<DuplicateKind, number> = { discogsId: 0, catalog: 1, similar: 2 };
+
+export interface DuplicateMatch {
+  record: VinylRecord;
+  kind: DuplicateKind;
+}
+
+export interface DuplicateGroup {
+  // Oldest first
+  records: VinylRecord[];
+  // Strongest match between records in the group
+  kind: DuplicateKind;
+}
+
+interface Fingerprint {
+  discogsId?: number;
+  catalog: string;
+  label: string;
+  artist: string;
+  album: string;
+  // Numbers and roman numerals in the album title
+  albumNumbers: string;
+  artistPairs: Map<string, number>;
+  albumPairs: Map<string, number>;
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Normalize an artist, album or label name for comparison
+ */
+export function normalizeName(text: string | undefined): string {
+  return stripAccents(text || '')
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Normalize a catalog number; Discogs uses "none" for releases without one
+ */
+export function normalizeCatalogNumber(text: string | undefined): string {
+  const catalog = stripAccents(text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return catalog === 'NONE' ? '' : catalog;
+}
+
+// Character pairs of a name, counted, for Dice similarity
+function letterPairs(text: string): Map<string, number> {
+  const compact = text.replace(/ /g, '');
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  return pairs;
+}
+
+function similarity(
+  a: string,
+  b: string,
+  aPairs: Map<string, number>,
+  bPairs: Map<string, number>
+): number {
+  if (a === b) return 1;
+
+  let total = 0;
+  let shared = 0;
+  aPairs.forEach((count, pair) => {
+    total += count;
+    shared += Math.min(count, bPairs.get(pair) || 0);
+  });
+  bPairs.forEach(count => {
+    total += count;
+  });
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function fingerprint(record: Partial<VinylData>): Fingerprint {
+  const artist = normalizeName(record.artistName);
+  const album = normalizeName(record.albumName);
+  return {
+    discogsId: record.discogsId,
+    catalog: normalizeCatalogNumber(record.serialNumber),
+    label: normalizeName(record.label),
+    artist,
+    album,
+    albumNumbers: album
+      .split(' ')
+      .filter(word => /^\d+$/.test(word) || ROMAN_NUMERALS.has(word))
+      .join(' '),
+    artistPairs: letterPairs(artist),
+    albumPairs: letterPairs(album),
+  };
+}
+
+function matchKind(a: Fingerprint, b: Fingerprint): DuplicateKind | null {
+  if (a.discogsId && b.discogsId) {
+    return a.discogsId === b.discogsId ? 'discogsId' : null;
+  }
+  if (a.catalog && a.label && a.catalog === b.catalog && a.label === b.label) {
+    return 'catalog';
+  }
+  if (!a.artist || !a.album || !b.artist || !b.album || a.albumNumbers !== b.albumNumbers) {
+    return null;
+  }
+
+  const artist = similarity(a.artist, b.artist, a.artistPairs, b.artistPairs);
+  const album = similarity(a.album, b.album, a.albumPairs, b.albumPairs);
+  return Math.min(artist, album) >= MIN_SIMILARITY && (artist + album) / 2 >= MEAN_SIMILARITY
+    ? 'similar'
+    : null;
+}
+
+// Original a record was kept as a copy of, following copyOf links. A link to
+// a record that no longer exists ends the chain.
+function copyRoot(record: VinylRecord, byId: Map<string, VinylRecord>): string {
+  const seen = new Set<string>();
+  let current = record;
+  while (current.copyOf && !seen.has(current.id)) {
+    seen.add(current.id);
+    const original = byId.get(current.copyOf);
+    if (!original) break;
+    current = original;
+  }
+  return current.id;
+}
+
+/**
+ * Records in the collection that a new record would duplicate, strongest
+ * match first
+ */
+export function findDuplicates(
+  candidate: NewRecordInput,
+  records: VinylRecord[]
+): DuplicateMatch[] {
+  const print = fingerprint(candidate);
+  const matches: DuplicateMatch[] = [];
+
+  records.forEach(record => {
+    const kind = matchKind(print, fingerprint(record));
+    if (kind) {
+      matches.push({ record, kind });
+    }
+  });
+
+  return matches.sort(
+    (a, b) =>
+      KIND_STRENGTH[a.kind] - KIND_STRENGTH[b.kind] || a.record.createdAt - b.record.createdAt
+  );
+}
+
+/**
+ * Scan the collection for groups of duplicate records, strongest first.
+ * Similar names are only compared between artists with the same initial,
+ * which keeps large collections fast.
+ */
+export function findDuplicateGroups(records: VinylRecord[]): DuplicateGroup[] {
+  const prints = records.map(fingerprint);
+  const byId = new Map(records.map(record => [record.id, record]));
+  const copyRoots = records.map(record => copyRoot(record, byId));
+  const parent = records.map((_, index) => index);
+  const groupKind = new Map<number, DuplicateKind>();
+
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const compare = (a: number, b: number) => {
+    // Kept deliberately as separate copies
+    if (copyRoots[a] === copyRoots[b]) return;
+    const kind = matchKind(prints[a], prints[b]);
+    if (!kind) return;
+
+    const [rootA, rootB] = [root(a), root(b)];
+    const kinds = [kind, groupKind.get(rootA), groupKind.get(rootB)].filter(
+      (k): k is DuplicateKind => !!k
+    );
+    parent[rootB] = rootA;
+    groupKind.set(rootA, kinds.sort((x, y) => KIND_STRENGTH[x] - KIND_STRENGTH[y])[0]);
+  };
+
+  // Discogs release and catalog matches are found through lookups; only
+  // records sharing a key need comparing
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(index);
+    } else {
+      buckets.set(key, [index]);
+    }
+  };
+  prints.forEach((print, index) => {
+    if (print.discogsId) addToBucket(`discogs:${print.discogsId}`, index);
+    if (print.catalog && print.label) addToBucket(`catalog:${print.catalog}|${print.label}`, index);
+    if (print.artist && print.album) addToBucket(`initial:${print.artist.charAt(0)}`, index);
+  });
+
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        compare(bucket[i], bucket[j]);
+      }
+    }
+  });
+
+  const groups = new Map<number, VinylRecord[]>();
+  records.forEach((record, index) => {
+    const group = groups.get(root(index));
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(root(index), [record]);
+    }
+  });
+
+  return Array.from(groups, ([index, groupRecords]) => ({
+    records: groupRecords.sort((a, b) => a.createdAt - b.createdAt),
+    kind: groupKind.get(index) as DuplicateKind,
+  }))
+    .filter(group => group.records.length > 1)
+    .sort(
+      (a, b) =>
+        KIND_STRENGTH[a.kind] - KIND_STRENGTH[b.kind] ||
+        a.records[0].createdAt - b.records[0].createdAt
+    );
+}
+
+/**
+ * copyOf links that mark every record of a group as a deliberate copy of the
+ * oldest one's original, keeping the links records already have: the
+ * original of each chain is linked instead of the record itself
+ *
+ * @param records - The whole collection, to follow existing links
+ */
+export function keepAllCopyLinks(
+  group: VinylRecord[],
+  records: VinylRecord[]
+): Array<{ id: string; copyOf: string }> {
+  const byId = new Map(records.map(record => [record.id, record]));
+  const oldest = group.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+  const original = copyRoot(oldest, byId);
+
+  const links = new Map<string, string>();
+  group.forEach(record => {
+    const root = copyRoot(record, byId);
+    if (root !== original) {
+      links.set(root, original);
+    }
+  });
+  return Array.from(links, ([id, copyOf]) => ({ id, copyOf }));
+}
+
+/**
+ * Record a group is merged into: the one in the Discogs collection, else one
+ * linked to a Discogs release, else the oldest
+ */
+export function chooseMergeTarget(records: VinylRecord[]): VinylRecord {
+  return (
+    records.find(record => record.discogsInstanceId !== undefined) ||
+    records.find(record => record.discogsId) ||
+    records.reduce((oldest, record) => (record.createdAt < oldest.createdAt ? record : oldest))
+  );
+}
+
+/**
+ * Fields the target record is missing, filled from the records merged into
+ * it in order. The target's own values are never overwritten.
+ */
+export function mergeFields(
+  target: VinylRecord,
+  sources: Array<NewRecordInput | VinylRecord>
+): NewRecordInput {
+  let merged: VinylRecord = target;
+  let updates: NewRecordInput = {};
+
+  sources.forEach(source => {
+    // Identity and copy links belong to the record, not its details
+    const { id, createdAt, updatedAt, copyOf, ...details } = source as Partial<VinylRecord>;
+    const filled = fillMissingFields(merged, {
+      ...details,
+      imageUrl: details.imageUrl || undefined,
+    });
+    merged = { ...merged, ...filled };
+    updates = { ...updates, ...filled };
+  });
+
+  return updates;
+}
@@ -0,0 +1,168 @@
+// ============================================================================
+// MATRIX / RUNOUT HELPERS
+// ============================================================================
+// The runout groove of a record carries one matrix number per side plus any
+// extra etchings (mastering engineer signatures, pressing plant codes). These
+// helpers build the structured MatrixRunout[] from Discogs identifiers and
+// legacy string values, and normalize text so transcriptions can be compared.
+// ============================================================================
+
+import type { MatrixRunout, MatrixMethod } from '../types';
+import type { DiscogsReleaseDetails } from './discogs';
+
+// Discogs identifier types that describe something in the runout area
+const RUNOUT_IDENTIFIER_TYPES = [
+  'Matrix / Runout',
+  'Mastering SID Code',
+  'Mould SID Code',
+  'Pressing Plant ID',
+];
+
+// ASCII hyphen, Unicode hyphens, en/em dashes, minus sign and their
+// small/full-width forms
+const DASHES = /[-\u2010-\u2015\u2212\uFE58\uFE63\uFF0D]/g;
+
+/**
+ * Normalize matrix text for comparison: case is ignored and dashes and
+ * whitespace are removed, so "yex 749–1" and "YEX-749-1" both become
+ * "YEX7491"
+ */
+export function normalizeMatrixText(text: string): string {
+  return text.toUpperCase().replace(DASHES, '').replace(/\s+/g, '');
+}
+
+export function matrixTextEquals(a: string, b: string): boolean {
+  return normalizeMatrixText(a) === normalizeMatrixText(b);
+}
+
+/**
+ * Extract a side ("A", "B", "1", ...) from a free-form description such as
+ * "Side A, etched" or "Runout Side B (variant 2)"
+ */
+export function parseMatrixSide(description: string): string {
+  const match =
+    description.match(/\bside\s*([a-h]|\d{1,2})\b/i) ||
+    description.match(/^([a-h])\b/i);
+  return match ? match[1].toUpperCase() : '';
+}
+
+export function parseMatrixMethod(description: string): MatrixMethod {
+  if (/etched/i.test(description)) return 'etched';
+  if (/stamped/i.test(description)) return 'stamped';
+  return 'unknown';
+}
+
+/**
+ * Build matrix entries from every runout-related identifier on a release
+ */
+export function matrixFromIdentifiers(
+  identifiers: DiscogsReleaseDetails['identifiers']
+): MatrixRunout[] {
+  return (identifiers || [])
+    .filter(identifier => RUNOUT_IDENTIFIER_TYPES.includes(identifier.type) && identifier.value)
+    .map(identifier => {
+      const description = identifier.description || '';
+      // Keep the identifier type for SID codes etc. so they aren't mistaken
+      // for the side's matrix number
+      const fullDescription =
+        identifier.type === 'Matrix / Runout'
+          ? description
+          : [identifier.type, description].filter(Boolean).join(': ');
+
+      return {
+        side: parseMatrixSide(description),
+        text: identifier.value.trim(),
+        method: parseMatrixMethod(description),
+        description: fullDescription || undefined,
+      };
+    });
+}
+
+/**
+ * Convert a stored matrix value to MatrixRunout[]. Records saved before the
+ * structured model hold a plain string (one entry per line).
+ */
+export function migrateMatrixRunout(value: unknown): MatrixRunout[] {
+  if (Array.isArray(value)) {
+    return value
+      .filter(entry => entry && typeof entry.text === 'string')
+      .map(entry => ({
+        side: typeof entry.side === 'string' ? entry.side : '',
+        text: entry.text,
+        method: ['etched', 'stamped'].includes(entry.method) ? entry.method : 'unknown',
+        description: typeof entry.description === 'string' ? entry.description : undefined,
+      }));
+  }
+
+  if (typeof value === 'string') {
+    return value
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(text => ({ side: '', text, method: 'unknown' as const }));
+  }
+
+  return [];
+}
+
+/**
+ * Next unused side letter, used when adding an entry in the editor
+ */
+export function nextMatrixSide(entries: MatrixRunout[]): string {
+  const used = new Set(entries.map(entry => entry.side.toUpperCase()));
+  for (const side of 'ABCDEFGH') {
+    if (!used.has(side)) return side;
+  }
+  return '';
+}
+
+const formatMatrixEntry = (entry: MatrixRunout, text: string = entry.text) =>
+  entry.side ? `${entry.side}: ${text}` : text;
+
+/**
+ * One-line summary for lists, e.g. "A: YEX 749-1 · B: YEX 750-1"
+ */
+export function formatMatrixSummary(entries: MatrixRunout[]): string {
+  return entries.map(entry => formatMatrixEntry(entry)).join(' · ');
+}
+
+/**
+ * Entries as one line that parseMatrixList() reads back, e.g.
+ * "A: YEX 749-1 | B: YEX 750-1". A "|" or "\" in the text is escaped with
+ * a backslash.
+ */
+export function formatMatrixList(entries: MatrixRunout[]): string {
+  return entries
+    .map(entry => formatMatrixEntry(entry, entry.text.replace(/[\\|]/g, '\\$&')))
+    .join(' | ');
+}
+
+/**
+ * Inverse of formatMatrixList(). A side is a letter with an optional digit
+ * ("A", "c2") or a number up to 99, and is stored in upper case.
+ */
+export function parseMatrixList(value: string): MatrixRunout[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[++i];
+    } else if (value[i] === '|') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^([A-Za-z]\d?|\d{1,2}):\s*(.+)$/);
+      return match
+        ? { side: match[1].toUpperCase(), text: match[2], method: 'unknown' as const }
+        : { side: '', text: part, method: 'unknown' as const };
+    });
+}
@@ -0,0 +1,111 @@
+// ============================================================================
+// OAUTH 1.0a SIGNING - RFC 5849 request signing
+// ============================================================================
+// Builds the `Authorization: OAuth ...` header for a request. Supports the
+// two signature methods Discogs accepts:
+// - HMAC-SHA1: signs method, URL and all parameters (works over any transport)
+// - PLAINTEXT: sends "consumerSecret&tokenSecret" (HTTPS only)
+// ============================================================================
+
+import * as Crypto from 'expo-crypto';
+import { hmacSha1, utf8Encode, bytesToBase64 } from './sha1';
+
+export type OAuthSignatureMethod = 'HMAC-SHA1' | 'PLAINTEXT';
+
+export interface OAuthSigningParams {
+  consumerKey: string;
+  consumerSecret: string;
+  // Absent while requesting a request token
+  token?: string;
+  tokenSecret?: string;
+  signatureMethod: OAuthSignatureMethod;
+  // Extra oauth_* parameters, e.g. oauth_callback or oauth_verifier
+  extraOAuthParams?: Record<string, string>;
+  // Overridable for deterministic signatures in tests
+  nonce?: string;
+  timestamp?: string;
+}
+
+/**
+ * RFC 3986 percent-encoding (stricter than encodeURIComponent)
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Alphanumeric nonce from the platform's secure random number generator
+ */
+export function generateNonce(length: number = 32): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  Crypto.getRandomBytes(length).forEach(byte => {
+    nonce += chars[byte % chars.length];
+  });
+  return nonce;
+}
+
+/**
+ * Signature base string: METHOD&encoded-base-url&encoded-normalized-params
+ */
+export function buildSignatureBaseString(
+  method: string,
+  url: string,
+  params: Array<[string, string]>
+): string {
+  const parsed = new URL(url);
+  // Scheme and host are case-insensitive; React Native's URL doesn't normalize them
+  const baseUrl = `${parsed.protocol}//${parsed.host}`.toLowerCase() + parsed.pathname;
+
+  // Query string parameters are part of the signature too
+  const allParams: Array<[string, string]> = [...params];
+  parsed.searchParams.forEach((value, key) => allParams.push([key, value]));
+
+  const normalized = allParams
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? (valueA < valueB ? -1 : 1) : keyA < keyB ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  return [method.toUpperCase(), percentEncode(baseUrl), percentEncode(normalized)].join('&');
+}
+
+/**
+ * Build the value of the Authorization header for a request
+ */
+export function buildOAuthHeader(method: string, url: string, params: OAuthSigningParams): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: params.consumerKey,
+    oauth_nonce: params.nonce ?? generateNonce(),
+    oauth_signature_method: params.signatureMethod,
+    oauth_timestamp: params.timestamp ?? Math.floor(Date.now() / 1000).toString(),
+    oauth_version: '1.0',
+    ...params.extraOAuthParams,
+  };
+  if (params.token) {
+    oauthParams.oauth_token = params.token;
+  }
+
+  const signingKey = `${percentEncode(params.consumerSecret)}&${percentEncode(params.tokenSecret || '')}`;
+
+  if (params.signatureMethod === 'PLAINTEXT') {
+    oauthParams.oauth_signature = signingKey;
+  } else {
+    const baseString = buildSignatureBaseString(method, url, Object.entries(oauthParams));
+    oauthParams.oauth_signature = bytesToBase64(
+      hmacSha1(utf8Encode(signingKey), utf8Encode(baseString))
+    );
+  }
+
+  return (
+    'OAuth ' +
+    Object.entries(oauthParams)
+      .map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`)
+      .join(', ')
+  );
+}
@@ -0,0 +1,41 @@
+// ============================================================================
+// FIXTURE OCR ENGINE - Deterministic engine backed by canned results
+// ============================================================================
+// Lets the whole upload → OCR → extractedData path run without native code or
+// a network connection (Expo Go, simulators, offline development).
+// ============================================================================
+
+import type { OcrEngine } from './types';
+import { ocrFixtures, DEFAULT_FIXTURE, FIXTURE_URI_PREFIX } from './fixtures';
+
+// Simulated processing time so loading states are visible during development
+const FIXTURE_DELAY_MS = 600;
+
+export const fixtureEngine: OcrEngine = {
+  id: 'fixture',
+  name: 'Fixture (offline)',
+
+  isAvailable(): boolean {
+    return true;
+  },
+
+  async recognize(imageUri: string) {
+    const startedAt = Date.now();
+    const name = imageUri.startsWith(FIXTURE_URI_PREFIX)
+      ? imageUri.slice(FIXTURE_URI_PREFIX.length)
+      : DEFAULT_FIXTURE;
+
+    const blocks = ocrFixtures[name];
+    if (!blocks) {
+      throw new Error(`Unknown OCR fixture: ${name}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, FIXTURE_DELAY_MS));
+
+    return {
+      engineId: 'fixture',
+      blocks,
+      durationMs: Date.now() - startedAt,
+    };
+  },
+};
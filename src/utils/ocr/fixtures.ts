@@ -0,0 +1,39 @@
+// ============================================================================
+// OCR FIXTURES - Canned engine output for offline development
+// ============================================================================
+// Each fixture is what an engine would return for a photo of a real label.
+// Load one with an image URI of the form `fixture://<name>`; any other URI
+// gets the default fixture.
+// ============================================================================
+
+import type { OcrTextBlock } from './types';
+
+export const FIXTURE_URI_PREFIX = 'fixture://';
+
+const line = (text: string, top: number, confidence: number): OcrTextBlock => ({
+  text,
+  boundingBox: { left: 120, top, width: 360, height: 28 },
+  confidence,
+});
+
+export const ocrFixtures: Record<string, OcrTextBlock[]> = {
+  'kind-of-blue': [
+    line('COLUMBIA', 40, 0.97),
+    line('CL 1355', 90, 0.93),
+    line('MILES DAVIS', 180, 0.95),
+    line('KIND OF BLUE', 220, 0.96),
+    line('Side 1', 300, 0.88),
+    line('33 1/3 RPM', 340, 0.9),
+    line('All rights reserved. Unauthorized duplication prohibited.', 520, 0.71),
+  ],
+  'rumours': [
+    line('Warner Bros. Records', 40, 0.94),
+    line('BSK 3010', 90, 0.92),
+    line('FLEETWOOD MAC', 170, 0.96),
+    line('RUMOURS', 210, 0.97),
+    line('SIDE ONE', 280, 0.9),
+    line('STEREO', 320, 0.89),
+  ],
+};
+
+export const DEFAULT_FIXTURE = 'kind-of-blue';
@@ -0,0 +1,22 @@
+export type {
+  OcrBoundingBox,
+  OcrTextBlock,
+  OcrResult,
+  OcrEngine,
+  OcrParser,
+  ParsedField,
+  FieldConfidence,
+  ParsedLabel,
+} from './types';
+export {
+  registerEngine,
+  getEngines,
+  getEngine,
+  setActiveEngine,
+  getActiveEngine,
+} from './registry';
+export { runOcrPipeline } from './pipeline';
+export { labelParser, classifyLine } from './labelParser';
+export type { LineKind, LineClassification } from './labelParser';
+export type { OcrPipelineOptions, OcrPipelineResult } from './pipeline';
+export { ocrFixtures, FIXTURE_URI_PREFIX } from './fixtures';
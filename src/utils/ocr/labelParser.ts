@@ -0,0 +1,235 @@
+// ============================================================================
+// LABEL TEXT PARSER - Heuristic classification of text on a record label
+// ============================================================================
+// A record label mixes the fields we want (artist, title, catalog number,
+// label name) with boilerplate (rights-society text, speed and side markers,
+// "STEREO", track listings). Each line is classified first; whatever is left
+// over is ranked by size and position to guess artist and album.
+//
+// Every field comes with a 0..1 confidence so the UI can flag guesses.
+// ============================================================================
+
+import type { OcrParser, OcrTextBlock, FieldConfidence } from './types';
+
+export type LineKind =
+  | 'catalogNumber'
+  | 'label'
+  | 'rights'
+  | 'speed'
+  | 'side'
+  | 'format'
+  | 'track'
+  | 'text';
+
+export interface LineClassification {
+  kind: LineKind;
+  // How sure the classifier is about the kind (not about the OCR text)
+  confidence: number;
+  // Cleaned-up value for field kinds, e.g. catalog number without "Cat. No."
+  value: string;
+}
+
+// Labels commonly found in collections. Matching is case-insensitive and
+// tolerates a trailing "Records"/"Recordings".
+const KNOWN_LABELS = [
+  '4AD', 'A&M', 'Apple', 'Asylum', 'Atlantic', 'Blue Note', 'Capitol', 'CBS',
+  'Chess', 'Chrysalis', 'Columbia', 'Decca', 'Def Jam', 'Deutsche Grammophon',
+  'ECM', 'Elektra', 'EMI', 'Epic', 'Factory', 'Geffen', 'Harvest', 'Impulse!',
+  'Interscope', 'Island', 'Mercury', 'Motown', 'Music On Vinyl', 'Parlophone',
+  'Philips', 'Polydor', 'Prestige', 'RCA', 'RCA Victor', 'Reprise', 'Riverside',
+  'Rough Trade', 'Sire', 'Stax', 'Sub Pop', 'Verve', 'Vertigo', 'Virgin',
+  'Warner Bros.',
+];
+
+const RIGHTS_PATTERN =
+  /all rights|reserved|unauthori[sz]ed|public performance|broadcasting|copying|prohibited|lending|℗|©|\(p\)|\(c\)|made in|printed in|manufactured|distributed by|marketed by|\b(BIEM|GEMA|SACEM|STEMRA|JASRAC|MCPS|ASCAP|BMI|SGAE|SIAE|NCB|AEPI|SABAM)\b/i;
+
+const SPEED_PATTERN = /^(33\s*(1\/3|⅓)?|45|78)\s*(rpm|r\.p\.m\.?|u\/min|tours)?$|\b(33\s*(1\/3|⅓)|45|78)\s*(rpm|r\.p\.m\.?|u\/min)\b/i;
+
+const SIDE_PATTERN =
+  /^(side|seite|face|lado|kant)\s*([a-h]|[1-8]|one|two|three|four)$|^([a-h]|[1-8])\s*(side|seite)$/i;
+
+const FORMAT_PATTERN =
+  /^(stereo|mono|monaural|quadraphonic|long playing|high fidelity|hi-?fi|lp|ep|12"|7"|10"|microgroove|promo(tional)?( copy)?|not for sale)$/i;
+
+// "A1 Song Title 3:45", "1. Song", "So What (9:22)"
+const TRACK_PATTERN = /^([a-h]?\d{1,2}[.)]?\s+\S)|\(?\d{1,2}:\d{2}\)?$/i;
+
+// "CBS 82419", "CL 1355", "MOVLP123", "SHVL-804", "ST-2653 A"
+const CATALOG_PATTERN = /^[A-Z]{1,6}[\s.-]?\d{2,6}(?:[\s-]?[A-Z0-9]{1,2})?$/;
+// "2383 123", "6.24132" - plausible but easily confused with other numbers
+const NUMERIC_CATALOG_PATTERN = /^\d{3,5}[\s.-]\d{2,6}$/;
+const CATALOG_PREFIX_PATTERN = /^(cat(alog(ue)?)?\.?\s*(no|nr|#)\.?|catalog(ue)?\s*:|no\.)\s*:?\s*/i;
+
+function normalizeLabelName(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b(records|recordings|record company|records ltd\.?|inc\.?)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const KNOWN_LABEL_LOOKUP = new Map(
+  KNOWN_LABELS.map(name => [normalizeLabelName(name), name])
+);
+
+/**
+ * Classify a single line of label text
+ */
+export function classifyLine(rawText: string): LineClassification {
+  const text = rawText.replace(/\s+/g, ' ').trim();
+
+  const catalogPrefix = text.match(CATALOG_PREFIX_PATTERN);
+  if (catalogPrefix && catalogPrefix[0].length < text.length) {
+    return {
+      kind: 'catalogNumber',
+      confidence: 0.95,
+      value: text.slice(catalogPrefix[0].length).trim(),
+    };
+  }
+
+  if (RIGHTS_PATTERN.test(text)) {
+    return { kind: 'rights', confidence: 0.9, value: text };
+  }
+
+  if (SPEED_PATTERN.test(text)) {
+    return { kind: 'speed', confidence: 0.9, value: text };
+  }
+
+  if (SIDE_PATTERN.test(text)) {
+    return { kind: 'side', confidence: 0.9, value: text };
+  }
+
+  if (FORMAT_PATTERN.test(text)) {
+    return { kind: 'format', confidence: 0.85, value: text };
+  }
+
+  const knownLabel = KNOWN_LABEL_LOOKUP.get(normalizeLabelName(text));
+  if (knownLabel) {
+    return { kind: 'label', confidence: 0.9, value: knownLabel };
+  }
+
+  if (CATALOG_PATTERN.test(text.toUpperCase()) && /[A-Z]/.test(text) && /\d/.test(text)) {
+    // All-caps on the label is a stronger signal than OCR'd mixed case
+    return {
+      kind: 'catalogNumber',
+      confidence: text === text.toUpperCase() ? 0.8 : 0.6,
+      value: text.toUpperCase(),
+    };
+  }
+
+  if (NUMERIC_CATALOG_PATTERN.test(text)) {
+    return { kind: 'catalogNumber', confidence: 0.5, value: text };
+  }
+
+  if (/\b(records|recordings)\b/i.test(text) && text.split(' ').length <= 4) {
+    return { kind: 'label', confidence: 0.7, value: text };
+  }
+
+  if (TRACK_PATTERN.test(text)) {
+    return { kind: 'track', confidence: 0.6, value: text };
+  }
+
+  return { kind: 'text', confidence: 0.5, value: text };
+}
+
+// Reading order: top to bottom, then left to right
+function sortBlocks(blocks: OcrTextBlock[]): OcrTextBlock[] {
+  return [...blocks].sort((a, b) => {
+    if (!a.boundingBox || !b.boundingBox) return 0;
+    return a.boundingBox.top - b.boundingBox.top || a.boundingBox.left - b.boundingBox.left;
+  });
+}
+
+// Engines that don't report confidence are treated as fully confident
+const ocrConfidence = (block: OcrTextBlock) => block.confidence ?? 1;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface ClassifiedBlock {
+  block: OcrTextBlock;
+  classification: LineClassification;
+}
+
+// Best line of a given kind, weighted by OCR confidence
+function pickBest(lines: ClassifiedBlock[], kind: LineKind): ClassifiedBlock | undefined {
+  return lines
+    .filter(line => line.classification.kind === kind)
+    .sort(
+      (a, b) =>
+        b.classification.confidence * ocrConfidence(b.block) -
+        a.classification.confidence * ocrConfidence(a.block)
+    )[0];
+}
+
+/**
+ * Parse OCR output from a record label into vinyl data with per-field
+ * confidence. Fields that could not be found are left empty and have no
+ * confidence entry.
+ */
+export const labelParser: OcrParser = (result) => {
+  const lines: ClassifiedBlock[] = sortBlocks(result.blocks)
+    .filter(block => block.text.trim())
+    .map(block => ({ block, classification: classifyLine(block.text) }));
+
+  const confidence: FieldConfidence = {};
+
+  const catalogLine = pickBest(lines, 'catalogNumber');
+  if (catalogLine) {
+    confidence.serialNumber = round(
+      catalogLine.classification.confidence * ocrConfidence(catalogLine.block)
+    );
+  }
+
+  const labelLine = pickBest(lines, 'label');
+  if (labelLine) {
+    confidence.label = round(
+      labelLine.classification.confidence * ocrConfidence(labelLine.block)
+    );
+  }
+
+  // Artist and title are usually the most prominent free text on the label
+  const freeText = lines.filter(line => line.classification.kind === 'text');
+  let artistName = '';
+  let albumName = '';
+
+  const combined = freeText.find(line => / [-–] /.test(line.block.text));
+  if (freeText.length === 1 && combined) {
+    // "Artist - Title" on a single line
+    const [artist, ...title] = combined.block.text.split(/ [-–] /);
+    artistName = artist.trim();
+    albumName = title.join(' - ').trim();
+    confidence.artistName = round(0.6 * ocrConfidence(combined.block));
+    confidence.albumName = round(0.6 * ocrConfidence(combined.block));
+  } else if (freeText.length > 0) {
+    const byProminence = [...freeText].sort(
+      (a, b) => (b.block.boundingBox?.height ?? 0) - (a.block.boundingBox?.height ?? 0)
+    );
+    // Keep reading order between the two most prominent lines
+    const [first, second] = byProminence
+      .slice(0, 2)
+      .sort((a, b) => freeText.indexOf(a) - freeText.indexOf(b));
+
+    // The more candidates there are, the less sure we are about the choice
+    const ambiguity = freeText.length <= 2 ? 1 : Math.max(0.5, 1 - (freeText.length - 2) * 0.1);
+
+    artistName = first.block.text.trim();
+    confidence.artistName = round(0.7 * ambiguity * ocrConfidence(first.block));
+
+    if (second) {
+      albumName = second.block.text.trim();
+      confidence.albumName = round(0.7 * ambiguity * ocrConfidence(second.block));
+    }
+  }
+
+  return {
+    data: {
+      artistName,
+      albumName,
+      serialNumber: catalogLine?.classification.value || '',
+      matrixRunout: [],
+      label: labelLine?.classification.value,
+    },
+    confidence,
+  };
+};
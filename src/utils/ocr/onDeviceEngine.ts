@@ -0,0 +1,47 @@
+// ============================================================================
+// ON-DEVICE OCR ENGINE - Google ML Kit text recognition
+// ============================================================================
+// Runs entirely on the device, no network required. ML Kit needs native code,
+// so it is only available in development/production builds, not in Expo Go.
+// ============================================================================
+
+import { NativeModules } from 'react-native';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import type { OcrEngine, OcrTextBlock } from './types';
+
+export const onDeviceEngine: OcrEngine = {
+  id: 'on-device',
+  name: 'On-device (ML Kit)',
+
+  isAvailable(): boolean {
+    return !!NativeModules.TextRecognition;
+  },
+
+  async recognize(imageUri: string) {
+    const startedAt = Date.now();
+    const result = await TextRecognition.recognize(imageUri);
+
+    // ML Kit groups lines into blocks; a label reads better line by line
+    const blocks: OcrTextBlock[] = result.blocks.flatMap(block =>
+      block.lines.map(line => ({
+        text: line.text,
+        boundingBox: line.frame
+          ? {
+              left: line.frame.left,
+              top: line.frame.top,
+              width: line.frame.width,
+              height: line.frame.height,
+            }
+          : null,
+        // ML Kit does not report per-line confidence
+        confidence: null,
+      }))
+    );
+
+    return {
+      engineId: 'on-device',
+      blocks,
+      durationMs: Date.now() - startedAt,
+    };
+  },
+};
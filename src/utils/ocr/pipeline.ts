@@ -0,0 +1,42 @@
+// ============================================================================
+// OCR PIPELINE - Image URI → engine → parser → VinylData
+// ============================================================================
+
+import type { OcrParser, OcrResult, ParsedLabel } from './types';
+import { getActiveEngine, getEngine } from './registry';
+import { labelParser } from './labelParser';
+
+export interface OcrPipelineOptions {
+  // Force a specific engine instead of the registry's choice
+  engineId?: string;
+  parser?: OcrParser;
+}
+
+export interface OcrPipelineResult extends ParsedLabel {
+  result: OcrResult;
+}
+
+/**
+ * Run OCR on an image and parse the recognized text into vinyl data
+ *
+ * @param imageUri - Local or remote image URI
+ * @returns Raw engine output together with the parsed data and confidences
+ * @throws Error if no engine is available or recognition fails
+ */
+export async function runOcrPipeline(
+  imageUri: string,
+  options: OcrPipelineOptions = {}
+): Promise<OcrPipelineResult> {
+  const engine = options.engineId ? getEngine(options.engineId) : getActiveEngine();
+  if (!engine) {
+    throw new Error(`Unknown OCR engine: ${options.engineId}`);
+  }
+
+  const result = await engine.recognize(imageUri);
+  const parse = options.parser || labelParser;
+
+  return {
+    result,
+    ...parse(result),
+  };
+}
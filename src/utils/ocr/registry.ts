@@ -0,0 +1,64 @@
+// ============================================================================
+// OCR ENGINE REGISTRY - Picks which engine processes uploaded images
+// ============================================================================
+// Engines register themselves by id. Unless one is selected explicitly, the
+// first available engine in registration order wins. The fixture engine is
+// only used as a fallback in development builds so real photos never get
+// canned results in production.
+// ============================================================================
+
+import type { OcrEngine } from './types';
+import { onDeviceEngine } from './onDeviceEngine';
+import { fixtureEngine } from './fixtureEngine';
+
+const engines: OcrEngine[] = [];
+let activeEngineId: string | null = null;
+
+export function registerEngine(engine: OcrEngine) {
+  if (engines.some(e => e.id === engine.id)) {
+    throw new Error(`OCR engine already registered: ${engine.id}`);
+  }
+  engines.push(engine);
+}
+
+export function getEngines(): OcrEngine[] {
+  return [...engines];
+}
+
+export function getEngine(id: string): OcrEngine | undefined {
+  return engines.find(e => e.id === id);
+}
+
+/**
+ * Select an engine by id, or pass null to go back to automatic selection
+ */
+export function setActiveEngine(id: string | null) {
+  if (id !== null && !getEngine(id)) {
+    throw new Error(`Unknown OCR engine: ${id}`);
+  }
+  activeEngineId = id;
+}
+
+/**
+ * Resolve the engine that should handle the next image
+ * @throws Error if no registered engine can run on this device
+ */
+export function getActiveEngine(): OcrEngine {
+  if (activeEngineId) {
+    const engine = getEngine(activeEngineId);
+    if (engine && engine.isAvailable()) {
+      return engine;
+    }
+  }
+
+  const engine = engines.find(
+    e => e.isAvailable() && (e.id !== fixtureEngine.id || __DEV__)
+  );
+  if (!engine) {
+    throw new Error('No OCR engine is available on this device');
+  }
+  return engine;
+}
+
+registerEngine(onDeviceEngine);
+registerEngine(fixtureEngine);
@@ -0,0 +1,54 @@
+// ============================================================================
+// OCR TYPES - Shared shapes for the OCR engine pipeline
+// ============================================================================
+// Every OCR engine takes an image URI and returns raw text blocks. The parser
+// stage (see pipeline.ts) is the only place that knows about VinylData, so
+// engines can be swapped without touching the rest of the app.
+// ============================================================================
+
+import type { VinylData } from '../../types';
+
+// Axis-aligned bounding box in image pixels (origin is the top-left corner)
+export interface OcrBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A single piece of recognized text (usually one line on the label)
+export interface OcrTextBlock {
+  text: string;
+  boundingBox: OcrBoundingBox | null;
+  // 0..1, or null when the engine does not report a confidence
+  confidence: number | null;
+}
+
+// Raw output of an engine run
+export interface OcrResult {
+  engineId: string;
+  blocks: OcrTextBlock[];
+  durationMs: number;
+}
+
+export interface OcrEngine {
+  id: string;
+  name: string;
+  // Whether the engine can run on this device/build
+  isAvailable(): boolean;
+  recognize(imageUri: string): Promise<OcrResult>;
+}
+
+// Fields the parser can guess from label text
+export type ParsedField = 'artistName' | 'albumName' | 'serialNumber' | 'label';
+
+// 0..1 confidence per guessed field; missing entries were not found
+export type FieldConfidence = Partial<Record<ParsedField, number>>;
+
+export interface ParsedLabel {
+  data: VinylData;
+  confidence: FieldConfidence;
+}
+
+// Turns raw OCR output into the vinyl fields shown on the OCR screen
+export type OcrParser = (result: OcrResult) => ParsedLabel;
@@ -0,0 +1,191 @@
+// ============================================================================
+// RECORD SCHEMA - Versioned migrations and validation for stored records
+// ============================================================================
+// Stored records carry no version of their own; the record store keeps one
+// schema version for the whole collection (see recordStore.ts). When the
+// app starts with data older than RECORD_SCHEMA_VERSION, every record is
+// passed through the migrations newer than the stored version, in order.
+//
+// TO CHANGE THE RECORD SHAPE:
+// 1. Append a migration with the next version number to MIGRATIONS
+// 2. Update validateRecord() so it accepts (and repairs) the new shape
+// Migrations receive plain JSON and must not assume earlier validation ran:
+// a record may have been written by any older version of the app.
+//
+// After migrating, every record is validated against the current
+// VinylRecord shape. Fields with the wrong type are repaired (converted
+// where the intent is clear, otherwise dropped or reset), and entries that
+// aren't records at all are reported so the store can quarantine them.
+// ============================================================================
+
+import type { VinylRecord, ValuationSnapshot } from '../types';
+import { migrateMatrixRunout } from './matrix';
+import { MEDIA_CONDITIONS, SLEEVE_CONDITIONS } from './conditions';
+
+// Stored record as read from JSON, before validation
+type RawRecord = Record<string, unknown>;
+
+interface RecordMigration {
+  version: number;
+  description: string;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+const MIGRATIONS: RecordMigration[] = [
+  {
+    version: 1,
+    description: 'Structured matrix / runout entries',
+    // Records saved before structured matrix data hold a plain string
+    migrate: record => ({ ...record, matrixRunout: migrateMatrixRunout(record.matrixRunout) }),
+  },
+];
+
+export const RECORD_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type RecordValidation =
+  | { valid: true; record: VinylRecord; repairs: string[] }
+  | { valid: false; reason: string };
+
+const isObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Run every migration newer than `fromVersion` on a stored record. Values
+ * that aren't objects are returned as they are for validation to reject.
+ */
+export function migrateRecord(record: unknown, fromVersion: number): unknown {
+  if (!isObject(record)) {
+    return record;
+  }
+  return MIGRATIONS.filter(migration => migration.version > fromVersion).reduce(
+    (current, migration) => migration.migrate(current),
+    record
+  );
+}
+
+// Record IDs embed their creation time: record_<timestamp>_<random>
+function timestampFromId(id: string): number | undefined {
+  const timestamp = Number(id.split('_')[1]);
+  return Number.isFinite(timestamp) && timestamp > 0 ? timestamp : undefined;
+}
+
+function isValuation(value: unknown): value is ValuationSnapshot {
+  return (
+    isObject(value) &&
+    isFiniteNumber(value.valuedAt) &&
+    typeof value.currency === 'string' &&
+    (value.suggestedPrice === null || isFiniteNumber(value.suggestedPrice)) &&
+    (value.lowestPrice === null || isFiniteNumber(value.lowestPrice))
+  );
+}
+
+/**
+ * Check a migrated record against the current VinylRecord shape, repairing
+ * what can be repaired
+ *
+ * @param value - Parsed JSON stored under the record's key
+ * @param id - ID the record is stored under
+ * @returns The repaired record with a description of each repair, or the
+ *   reason the value can't be used as a record
+ */
+export function validateRecord(value: unknown, id: string): RecordValidation {
+  if (!isObject(value)) {
+    return { valid: false, reason: 'Not a record object' };
+  }
+
+  const repairs: string[] = [];
+  const record: RawRecord = { ...value };
+  const repair = (field: string, fixed: unknown, description: string) => {
+    if (fixed === undefined) {
+      delete record[field];
+    } else {
+      record[field] = fixed;
+    }
+    repairs.push(`${field}: ${description}`);
+  };
+
+  if (record.id !== id) {
+    repair('id', id, 'restored from storage key');
+  }
+
+  (['artistName', 'albumName', 'serialNumber'] as const).forEach(field => {
+    const current = record[field];
+    if (typeof current !== 'string') {
+      repair(field, isFiniteNumber(current) ? String(current) : '', 'not text');
+    }
+  });
+
+  const matrixRunout = migrateMatrixRunout(record.matrixRunout);
+  if (JSON.stringify(matrixRunout) !== JSON.stringify(record.matrixRunout)) {
+    repair('matrixRunout', matrixRunout, 'invalid entries');
+  }
+
+  if (record.imageUrl !== null && typeof record.imageUrl !== 'string') {
+    repair('imageUrl', null, 'not an image URL');
+  }
+
+  const createdFallback = timestampFromId(id) ?? Date.now();
+  if (!isFiniteNumber(record.createdAt)) {
+    repair('createdAt', createdFallback, 'missing date');
+  }
+  if (!isFiniteNumber(record.updatedAt)) {
+    repair('updatedAt', record.createdAt, 'missing date');
+  }
+
+  (['year', 'discogsId', 'discogsFolderId', 'discogsInstanceId'] as const).forEach(field => {
+    const current = record[field];
+    if (current === undefined || isFiniteNumber(current)) return;
+    const parsed = typeof current === 'string' ? parseInt(current, 10) : NaN;
+    repair(field, Number.isFinite(parsed) ? parsed : undefined, 'not a number');
+  });
+
+  (['country', 'label', 'format', 'discogsUrl', 'copyOf'] as const).forEach(field => {
+    const current = record[field];
+    if (current !== undefined && typeof current !== 'string') {
+      repair(field, undefined, 'not text');
+    }
+  });
+
+  (['genre', 'style'] as const).forEach(field => {
+    const current = record[field];
+    if (current === undefined) return;
+    if (typeof current === 'string') {
+      repair(field, [current], 'single value');
+    } else if (!Array.isArray(current) || current.some(entry => typeof entry !== 'string')) {
+      repair(
+        field,
+        Array.isArray(current) ? current.filter(entry => typeof entry === 'string') : undefined,
+        'invalid entries'
+      );
+    }
+  });
+
+  if (record.syncToDiscogs !== undefined && typeof record.syncToDiscogs !== 'boolean') {
+    repair('syncToDiscogs', undefined, 'not true or false');
+  }
+
+  if (
+    record.mediaCondition !== undefined &&
+    !MEDIA_CONDITIONS.some(condition => condition.value === record.mediaCondition)
+  ) {
+    repair('mediaCondition', undefined, 'unknown grade');
+  }
+  if (
+    record.sleeveCondition !== undefined &&
+    !SLEEVE_CONDITIONS.some(condition => condition.value === record.sleeveCondition)
+  ) {
+    repair('sleeveCondition', undefined, 'unknown grade');
+  }
+
+  if (record.valuations !== undefined) {
+    const valuations = Array.isArray(record.valuations) ? record.valuations : [];
+    if (!Array.isArray(record.valuations) || !valuations.every(isValuation)) {
+      repair('valuations', valuations.filter(isValuation), 'invalid snapshots');
+    }
+  }
+
+  return { valid: true, record: record as unknown as VinylRecord, repairs };
+}
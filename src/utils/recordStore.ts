@@ -0,0 +1,776 @@
+// ============================================================================
+// RECORD STORE - Indexed per-record persistence in AsyncStorage
+// ============================================================================
+// Each record is stored under its own key ('vinyl_record:<id>') so a change
+// only rewrites that record, and no single value grows with the collection
+// (Android's AsyncStorage struggles with values of a few MB, which a blob
+// of records with base64 images quickly reaches).
+//
+// A small index ('vinyl_records_index') lists every record ID in insertion
+// order with its Discogs release ID and the record it's a copy of, so
+// records can be looked up by ID, discogsId or copyOf without reading the
+// whole collection. The index is kept in
+// memory after the first read.
+//
+// TRANSACTIONS: every read and write goes through one queue, so a
+// read-modify-write (see transaction()) can't interleave with another and
+// lose its update. A transaction's changes are committed as one batch:
+// 1. Each changed record is written to its own staging key
+//    ('vinyl_record_staged:<id>'), a few records per multiSet
+// 2. The journal (IDs to put and remove, and the new index) is written in a
+//    single setItem; it holds no records, so it stays small however many
+//    records a batch (a restore, a CSV import) changes
+// 3. Staged records are copied to their keys, removals are applied and the
+//    journal is removed, then the staging keys
+// Once the journal is written the batch is committed and the transaction
+// succeeds: if the app dies or a write fails during step 3, the journal is
+// replayed before the next read, so a batch is applied either fully or not
+// at all. A staged record that has gone missing is skipped rather than
+// blocking every later read. Staging keys left without a journal belong to
+// a batch that never committed and are removed.
+//
+// READ FAILURES: if the index, the journal or a record can't be read or
+// parsed, the error is thrown instead of treating the collection as empty,
+// and no transaction can commit until a read succeeds. Nothing is written
+// on the basis of a read that failed.
+//
+// SCHEMA: the collection's schema version is kept under
+// 'vinyl_records_meta'. If the stored version is older than the app's, the
+// first read of the session migrates and validates every record; otherwise
+// records are validated as they are read (see recordSchema.ts). Repaired
+// records are saved back, and values that aren't records are moved to
+// 'vinyl_records_quarantine' so one bad entry can't block the rest of the
+// collection.
+//
+// BACKUP: before migrating, each record is copied to its own backup key
+// ('vinyl_record_backup:<id>'), and the upgrade always reads from that
+// copy. An interrupted upgrade therefore starts again from the original
+// data, and restoreBackup() can roll an upgrade back.
+//
+// LEGACY: collections saved before the store existed live in one JSON
+// array under 'vinyl_records' (schema version 0). The first read copies
+// them into per-record keys, writes the index, and only then removes the
+// old key, so an interrupted copy simply runs again.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { VinylRecord } from '../types';
+import { RECORD_SCHEMA_VERSION, migrateRecord, validateRecord } from './recordSchema';
+
+const LEGACY_KEY = 'vinyl_records';
+const INDEX_KEY = 'vinyl_records_index';
+const JOURNAL_KEY = 'vinyl_records_journal';
+const META_KEY = 'vinyl_records_meta';
+const QUARANTINE_KEY = 'vinyl_records_quarantine';
+const BACKUP_KEY = 'vinyl_records_backup';
+const RECORD_KEY_PREFIX = 'vinyl_record:';
+const BACKUP_RECORD_KEY_PREFIX = 'vinyl_record_backup:';
+const STAGED_RECORD_KEY_PREFIX = 'vinyl_record_staged:';
+// Records per multiGet/multiSet, to keep each call small
+const MIGRATION_BATCH_SIZE = 50;
+
+interface IndexEntry {
+  id: string;
+  discogsId?: number;
+  copyOf?: string;
+}
+
+// A committed batch, stored until it has been fully applied. Records to put
+// are read from their staging keys.
+interface Journal {
+  put: string[];
+  remove: string[];
+  index: IndexEntry[];
+}
+
+interface StoredMeta {
+  schemaVersion: number;
+}
+
+// Written after every backup record, so only complete backups are used
+interface StoredBackup {
+  schemaVersion: number;
+  createdAt: number;
+  index: IndexEntry[];
+}
+
+// A stored value that couldn't be used as a record, kept as it was
+export interface QuarantinedEntry {
+  key: string;
+  value: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+export interface RecordStoreStatus {
+  schemaVersion: number;
+  // Copy of the collection from before the last schema upgrade
+  backup: { schemaVersion: number; createdAt: number; recordCount: number } | null;
+  quarantined: QuarantinedEntry[];
+}
+
+// Reads and staged writes available inside transaction()
+export interface RecordTransaction {
+  get(id: string): Promise<VinylRecord | null>;
+  getMany(ids: string[]): Promise<VinylRecord[]>;
+  // IDs of every record, including staged puts and excluding staged removes
+  getIds(): Promise<string[]>;
+  // Records whose copyOf is one of the given IDs
+  getCopiesOf(ids: string[]): Promise<VinylRecord[]>;
+  put(record: VinylRecord): void;
+  remove(id: string): void;
+}
+
+// Thrown for any failed read, so callers show one clear message
+function readFailed(error: unknown): Error {
+  console.error('Error reading collection from AsyncStorage:', error);
+  return new Error('Your collection could not be read');
+}
+
+const recordKey = (id: string) => `${RECORD_KEY_PREFIX}${id}`;
+const backupKey = (id: string) => `${BACKUP_RECORD_KEY_PREFIX}${id}`;
+const stagedKey = (id: string) => `${STAGED_RECORD_KEY_PREFIX}${id}`;
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += MIGRATION_BATCH_SIZE) {
+    chunks.push(items.slice(start, start + MIGRATION_BATCH_SIZE));
+  }
+  return chunks;
+}
+
+const toIndexEntry = (record: VinylRecord): IndexEntry => ({
+  id: record.id,
+  discogsId: record.discogsId,
+  copyOf: record.copyOf,
+});
+
+class RecordStore {
+  private index: IndexEntry[] | null = null;
+  // Tail of the operation queue; never rejects
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Run an operation after every earlier one has finished
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Load the index once, finishing an interrupted commit and bringing the
+   * stored records up to the current schema. A failed load isn't cached, so
+   * it's retried by the next operation.
+   */
+  private async getIndex(): Promise<IndexEntry[]> {
+    if (!this.index) {
+      try {
+        this.index = await this.loadIndex();
+      } catch (error) {
+        throw readFailed(error);
+      }
+    }
+    return this.index;
+  }
+
+  private async loadIndex(): Promise<IndexEntry[]> {
+    const journal = await AsyncStorage.getItem(JOURNAL_KEY);
+    if (journal) {
+      await this.applyJournal(JSON.parse(journal));
+    } else {
+      await this.removeStaged();
+    }
+
+    const meta = await AsyncStorage.getItem(META_KEY);
+    // Collections saved before the schema was versioned are version 0
+    const schemaVersion = meta ? (JSON.parse(meta) as StoredMeta).schemaVersion : 0;
+    if (schemaVersion > RECORD_SCHEMA_VERSION) {
+      throw new Error(`Collection schema ${schemaVersion} is newer than this app supports`);
+    }
+
+    return this.upgrade(await this.readIndex(), schemaVersion);
+  }
+
+  private async readIndex(): Promise<IndexEntry[]> {
+    const stored = await AsyncStorage.getItem(INDEX_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+
+    // An interrupted copy leaves the legacy blob in place
+    const legacy = await AsyncStorage.getItem(LEGACY_KEY);
+    if (legacy) {
+      return this.splitLegacyBlob(legacy);
+    }
+
+    // Records without an index means the index was lost, not that the
+    // collection is empty. Record IDs start with their creation time, so
+    // sorting the keys restores the order they were added in.
+    const keys = await AsyncStorage.getAllKeys();
+    return keys
+      .filter(key => key.startsWith(RECORD_KEY_PREFIX))
+      .sort()
+      .map(key => ({ id: key.slice(RECORD_KEY_PREFIX.length) }));
+  }
+
+  private async splitLegacyBlob(legacy: string): Promise<IndexEntry[]> {
+    const parsed: unknown = JSON.parse(legacy);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Stored collection is not a list');
+    }
+
+    // Entries without an ID can't get a key of their own
+    const records: VinylRecord[] = [];
+    const quarantined: QuarantinedEntry[] = [];
+    parsed.forEach((entry, position) => {
+      if (typeof entry?.id === 'string' && entry.id) {
+        records.push(entry);
+      } else {
+        quarantined.push({
+          key: `${LEGACY_KEY}[${position}]`,
+          value: JSON.stringify(entry) ?? 'undefined',
+          reason: 'Record has no ID',
+          quarantinedAt: Date.now(),
+        });
+      }
+    });
+
+    await this.quarantine(quarantined);
+    for (const batch of chunk(records)) {
+      await AsyncStorage.multiSet(
+        batch.map(record => [recordKey(record.id), JSON.stringify(record)])
+      );
+    }
+
+    const index = records.map(toIndexEntry);
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    await AsyncStorage.removeItem(LEGACY_KEY);
+    return index;
+  }
+
+  /**
+   * Migrate (from the backup copy) and validate every record of an older
+   * schema, then save the records, the new index and the schema version
+   */
+  private async upgrade(index: IndexEntry[], fromVersion: number): Promise<IndexEntry[]> {
+    if (fromVersion >= RECORD_SCHEMA_VERSION) {
+      return index;
+    }
+
+    const ids = [...new Set(index.map(entry => entry.id))];
+    const sources =
+      ids.length > 0
+        ? await this.readBackupSources(ids, index, fromVersion)
+        : new Map<string, string>();
+
+    const put: VinylRecord[] = [];
+    const quarantined: QuarantinedEntry[] = [];
+    const nextIndex: IndexEntry[] = [];
+
+    for (const batch of chunk(ids)) {
+      const pairs = await AsyncStorage.multiGet(batch.map(recordKey));
+      pairs.forEach(([key, current], position) => {
+        const id = batch[position];
+        const value = sources.get(id) ?? current;
+        if (value === null) {
+          console.warn(`Record ${id} is listed but not stored; removing it from the index`);
+          return;
+        }
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          quarantined.push({ key, value, reason: 'Not valid JSON', quarantinedAt: Date.now() });
+          return;
+        }
+
+        const result = validateRecord(migrateRecord(parsed, fromVersion), id);
+        if (!result.valid) {
+          quarantined.push({ key, value, reason: result.reason, quarantinedAt: Date.now() });
+          return;
+        }
+        if (result.repairs.length > 0) {
+          console.warn(`Repaired stored record ${id}:`, result.repairs.join(', '));
+        }
+        put.push(result.record);
+        nextIndex.push(toIndexEntry(result.record));
+      });
+    }
+
+    // Quarantined values are saved before their keys are removed
+    await this.quarantine(quarantined);
+    for (const batch of chunk(put)) {
+      await AsyncStorage.multiSet(
+        batch.map(record => [recordKey(record.id), JSON.stringify(record)])
+      );
+    }
+    const meta: StoredMeta = { schemaVersion: RECORD_SCHEMA_VERSION };
+    await AsyncStorage.multiSet([
+      [INDEX_KEY, JSON.stringify(nextIndex)],
+      [META_KEY, JSON.stringify(meta)],
+    ]);
+    if (quarantined.length > 0) {
+      await AsyncStorage.multiRemove(quarantined.map(entry => entry.key));
+    }
+    return nextIndex;
+  }
+
+  /**
+   * Stored values to migrate from: the backup of an interrupted upgrade
+   * from the same version, or a fresh backup of the current records
+   */
+  private async readBackupSources(
+    ids: string[],
+    index: IndexEntry[],
+    fromVersion: number
+  ): Promise<Map<string, string>> {
+    const stored = await AsyncStorage.getItem(BACKUP_KEY);
+    const existing: StoredBackup | null = stored ? JSON.parse(stored) : null;
+
+    if (!existing || existing.schemaVersion !== fromVersion) {
+      await this.removeBackup();
+      for (const batch of chunk(ids)) {
+        const pairs = await AsyncStorage.multiGet(batch.map(recordKey));
+        await AsyncStorage.multiSet(
+          pairs
+            .map(([, value], position) => [backupKey(batch[position]), value])
+            .filter((pair): pair is [string, string] => pair[1] !== null)
+        );
+      }
+      const backup: StoredBackup = { schemaVersion: fromVersion, createdAt: Date.now(), index };
+      await AsyncStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
+    }
+
+    const sources = new Map<string, string>();
+    for (const batch of chunk(ids)) {
+      const pairs = await AsyncStorage.multiGet(batch.map(backupKey));
+      pairs.forEach(([, value], position) => {
+        if (value !== null) {
+          sources.set(batch[position], value);
+        }
+      });
+    }
+    return sources;
+  }
+
+  // Staging keys of a batch whose journal was never written or was applied
+  private async removeStaged(ids?: string[]): Promise<void> {
+    const keys = ids
+      ? ids.map(stagedKey)
+      : (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(STAGED_RECORD_KEY_PREFIX));
+    for (const batch of chunk(keys)) {
+      await AsyncStorage.multiRemove(batch);
+    }
+  }
+
+  private async removeBackup(): Promise<void> {
+    await AsyncStorage.removeItem(BACKUP_KEY);
+    const keys = await AsyncStorage.getAllKeys();
+    const backupKeys = keys.filter(key => key.startsWith(BACKUP_RECORD_KEY_PREFIX));
+    if (backupKeys.length > 0) {
+      await AsyncStorage.multiRemove(backupKeys);
+    }
+  }
+
+  private async readQuarantine(): Promise<QuarantinedEntry[]> {
+    const stored = await AsyncStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  // Entries replace earlier ones with the same key
+  private async quarantine(entries: QuarantinedEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    entries.forEach(entry => console.warn(`Quarantined ${entry.key}: ${entry.reason}`));
+    const keys = new Set(entries.map(entry => entry.key));
+    const existing = await this.readQuarantine();
+    await AsyncStorage.setItem(
+      QUARANTINE_KEY,
+      JSON.stringify([...existing.filter(entry => !keys.has(entry.key)), ...entries])
+    );
+  }
+
+  /**
+   * Read and validate records by ID. A record that is listed but missing, or
+   * isn't a valid record, is dropped from the index (and quarantined) and
+   * the rest are returned; repaired records are saved back.
+   */
+  private async readRecords(ids: string[]): Promise<VinylRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    let pairs: readonly (readonly [string, string | null])[];
+    try {
+      pairs = await AsyncStorage.multiGet(ids.map(recordKey));
+    } catch (error) {
+      throw readFailed(error);
+    }
+
+    const records: VinylRecord[] = [];
+    const repaired: VinylRecord[] = [];
+    const quarantined: QuarantinedEntry[] = [];
+    const dropped = new Set<string>();
+
+    pairs.forEach(([key, value], position) => {
+      const id = ids[position];
+      if (value === null) {
+        console.warn(`Record ${id} is listed but not stored; removing it from the index`);
+        dropped.add(id);
+        return;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        quarantined.push({ key, value, reason: 'Not valid JSON', quarantinedAt: Date.now() });
+        dropped.add(id);
+        return;
+      }
+
+      const result = validateRecord(parsed, id);
+      if (!result.valid) {
+        quarantined.push({ key, value, reason: result.reason, quarantinedAt: Date.now() });
+        dropped.add(id);
+        return;
+      }
+      if (result.repairs.length > 0) {
+        console.warn(`Repaired stored record ${id}:`, result.repairs.join(', '));
+        repaired.push(result.record);
+      }
+      records.push(result.record);
+    });
+
+    if (repaired.length > 0 || dropped.size > 0) {
+      await this.saveReadRepairs(repaired, quarantined, dropped);
+    }
+    return records;
+  }
+
+  /**
+   * Save records repaired while reading, and drop the ones that couldn't be
+   * used. The records already read are still returned if this fails.
+   */
+  private async saveReadRepairs(
+    repaired: VinylRecord[],
+    quarantined: QuarantinedEntry[],
+    dropped: Set<string>
+  ): Promise<void> {
+    try {
+      // Quarantined values are saved before their keys are removed
+      await this.quarantine(quarantined);
+      for (const batch of chunk(repaired)) {
+        await AsyncStorage.multiSet(
+          batch.map(record => [recordKey(record.id), JSON.stringify(record)])
+        );
+      }
+      if (dropped.size > 0 && this.index) {
+        const index = this.index.filter(entry => !dropped.has(entry.id));
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+        this.index = index;
+      }
+      if (quarantined.length > 0) {
+        await AsyncStorage.multiRemove(quarantined.map(entry => entry.key));
+      }
+    } catch (error) {
+      console.warn('Error saving repaired records:', error);
+    }
+  }
+
+  private async readKnown(ids: string[]): Promise<VinylRecord[]> {
+    const index = await this.getIndex();
+    const known = new Set(index.map(entry => entry.id));
+    return this.readRecords(ids.filter(id => known.has(id)));
+  }
+
+  /**
+   * Every record, in the order they were added
+   *
+   * @throws Error if the collection can't be read
+   */
+  getAll(): Promise<VinylRecord[]> {
+    return this.enqueue(async () => {
+      const index = await this.getIndex();
+      return this.readRecords(index.map(entry => entry.id));
+    });
+  }
+
+  /**
+   * One record by ID, or null if it doesn't exist
+   */
+  async get(id: string): Promise<VinylRecord | null> {
+    const [record] = await this.getMany([id]);
+    return record ?? null;
+  }
+
+  /**
+   * Records by ID; unknown IDs are left out
+   */
+  getMany(ids: string[]): Promise<VinylRecord[]> {
+    return this.enqueue(() => this.readKnown(ids));
+  }
+
+  /**
+   * All records for the given Discogs release IDs (a release can be owned
+   * more than once)
+   */
+  getByDiscogsIds(discogsIds: number[]): Promise<VinylRecord[]> {
+    return this.enqueue(async () => {
+      const index = await this.getIndex();
+      const wanted = new Set(discogsIds);
+      return this.readRecords(
+        index
+          .filter(entry => entry.discogsId !== undefined && wanted.has(entry.discogsId))
+          .map(entry => entry.id)
+      );
+    });
+  }
+
+  /**
+   * Schema version, pre-upgrade backup and quarantined entries, for the
+   * Stored Data section in Settings
+   */
+  getStatus(): Promise<RecordStoreStatus> {
+    return this.enqueue(async () => {
+      await this.getIndex();
+      const stored = await AsyncStorage.getItem(BACKUP_KEY);
+      const backup: StoredBackup | null = stored ? JSON.parse(stored) : null;
+
+      return {
+        schemaVersion: RECORD_SCHEMA_VERSION,
+        backup: backup && {
+          schemaVersion: backup.schemaVersion,
+          createdAt: backup.createdAt,
+          recordCount: backup.index.length,
+        },
+        quarantined: await this.readQuarantine(),
+      };
+    });
+  }
+
+  /**
+   * Put the collection back as it was before the last schema upgrade. The
+   * upgrade then runs again on the restored records, so a fixed migration
+   * in a newer app version can redo a bad one. Changes made since the
+   * upgrade are lost.
+   *
+   * @throws Error if there is no backup or it can't be restored
+   */
+  restoreBackup(): Promise<void> {
+    return this.enqueue(async () => {
+      const stored = await AsyncStorage.getItem(BACKUP_KEY);
+      if (!stored) {
+        throw new Error('There is no backup to restore');
+      }
+      const backup: StoredBackup = JSON.parse(stored);
+      const backupIds = new Set(backup.index.map(entry => entry.id));
+
+      for (const batch of chunk([...backupIds])) {
+        const pairs = await AsyncStorage.multiGet(batch.map(backupKey));
+        await AsyncStorage.multiSet(
+          pairs
+            .map(([, value], position) => [recordKey(batch[position]), value])
+            .filter((pair): pair is [string, string] => pair[1] !== null)
+        );
+      }
+
+      const meta: StoredMeta = { schemaVersion: backup.schemaVersion };
+      await AsyncStorage.multiSet([
+        [INDEX_KEY, JSON.stringify(backup.index)],
+        [META_KEY, JSON.stringify(meta)],
+      ]);
+
+      // Records added since the upgrade
+      const keys = await AsyncStorage.getAllKeys();
+      const added = keys.filter(
+        key =>
+          key.startsWith(RECORD_KEY_PREFIX) &&
+          !backupIds.has(key.slice(RECORD_KEY_PREFIX.length))
+      );
+      if (added.length > 0) {
+        await AsyncStorage.multiRemove(added);
+      }
+
+      // The next read upgrades the restored records
+      this.index = null;
+    });
+  }
+
+  /**
+   * Delete the pre-upgrade backup to free space
+   */
+  discardBackup(): Promise<void> {
+    return this.enqueue(() => this.removeBackup());
+  }
+
+  /**
+   * Delete quarantined entries for good
+   */
+  clearQuarantine(): Promise<void> {
+    return this.enqueue(() => AsyncStorage.removeItem(QUARANTINE_KEY));
+  }
+
+  /**
+   * Read, change and save records with no other operation in between. Reads
+   * inside the transaction see its own staged changes. The changes are
+   * committed as one batch once `fn` resolves, and dropped if it throws.
+   *
+   * Don't make network requests inside `fn`: every other read and write
+   * waits for it.
+   *
+   * @returns Whatever `fn` returns
+   * @throws Error if `fn` throws, the collection can't be read or the
+   *   batch can't be saved
+   */
+  transaction<T>(fn: (tx: RecordTransaction) => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const put = new Map<string, VinylRecord>();
+      const remove = new Set<string>();
+
+      const getMany = async (ids: string[]) => {
+        const stored = await this.readKnown(ids.filter(id => !put.has(id) && !remove.has(id)));
+        const byId = new Map(stored.map(record => [record.id, record]));
+        return ids
+          .map(id => put.get(id) ?? byId.get(id))
+          .filter((record): record is VinylRecord => record !== undefined);
+      };
+
+      const result = await fn({
+        get: async id => (await getMany([id]))[0] ?? null,
+        getMany,
+        getIds: async () => {
+          const index = await this.getIndex();
+          const ids = new Set(index.map(entry => entry.id));
+          put.forEach((_, id) => ids.add(id));
+          remove.forEach(id => ids.delete(id));
+          return [...ids];
+        },
+        getCopiesOf: async ids => {
+          const wanted = new Set(ids);
+          const isCopy = (entry: { copyOf?: string }) =>
+            entry.copyOf !== undefined && wanted.has(entry.copyOf);
+          const index = await this.getIndex();
+          const candidates = new Set(index.filter(isCopy).map(entry => entry.id));
+          put.forEach((record, id) => {
+            if (isCopy(record)) {
+              candidates.add(id);
+            }
+          });
+          // Staged changes win over the index
+          return (await getMany([...candidates])).filter(isCopy);
+        },
+        put: record => {
+          remove.delete(record.id);
+          put.set(record.id, record);
+        },
+        remove: id => {
+          put.delete(id);
+          remove.add(id);
+        },
+      });
+
+      if (put.size > 0 || remove.size > 0) {
+        await this.commit([...put.values()], [...remove]);
+      }
+      return result;
+    });
+  }
+
+  private async commit(put: VinylRecord[], remove: string[]): Promise<void> {
+    const index = await this.getIndex();
+    const removed = new Set(remove);
+    const updated = new Map(put.map(record => [record.id, toIndexEntry(record)]));
+
+    // New records are appended; existing ones keep their position
+    const nextIndex = index
+      .filter(entry => !removed.has(entry.id))
+      .map(entry => updated.get(entry.id) ?? entry);
+    const existing = new Set(index.map(entry => entry.id));
+    put.forEach(record => {
+      if (!existing.has(record.id)) {
+        nextIndex.push(toIndexEntry(record));
+      }
+    });
+
+    const journal: Journal = { put: put.map(record => record.id), remove, index: nextIndex };
+    try {
+      for (const batch of chunk(put)) {
+        await AsyncStorage.multiSet(
+          batch.map(record => [stagedKey(record.id), JSON.stringify(record)])
+        );
+      }
+      await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+    } catch (error) {
+      // Nothing was committed; staged records are removed on the next load
+      this.index = null;
+      console.error('Error saving to AsyncStorage:', error);
+      throw new Error('Failed to save data');
+    }
+
+    try {
+      await this.applyJournal(journal, put);
+      this.index = nextIndex;
+    } catch (error) {
+      // The batch is committed: the journal is replayed when the index is
+      // next loaded, so the change isn't reported as failed (a retry would
+      // apply it twice)
+      this.index = null;
+      console.warn('Error applying committed batch; it will be replayed:', error);
+    }
+  }
+
+  /**
+   * Apply a committed batch. Without `records` (replaying after a restart)
+   * they're read back from their staging keys.
+   */
+  private async applyJournal(journal: Journal, records?: VinylRecord[]): Promise<void> {
+    let index = journal.index;
+
+    if (records) {
+      for (const batch of chunk(records)) {
+        await AsyncStorage.multiSet(
+          batch.map(record => [recordKey(record.id), JSON.stringify(record)])
+        );
+      }
+    } else {
+      const missing: string[] = [];
+      for (const batch of chunk(journal.put)) {
+        const pairs = await AsyncStorage.multiGet(batch.map(stagedKey));
+        const staged: Array<[string, string]> = [];
+        pairs.forEach(([, value], position) => {
+          if (value === null) {
+            missing.push(batch[position]);
+          } else {
+            staged.push([recordKey(batch[position]), value]);
+          }
+        });
+        if (staged.length > 0) {
+          await AsyncStorage.multiSet(staged);
+        }
+      }
+
+      // The stored copy of a missing record is kept; a new one is dropped
+      if (missing.length > 0) {
+        console.warn(`Staged records ${missing.join(', ')} are missing; skipping them`);
+        const stored = await AsyncStorage.multiGet(missing.map(recordKey));
+        const absent = new Set(missing.filter((_, position) => stored[position][1] === null));
+        index = index.filter(entry => !absent.has(entry.id));
+      }
+    }
+
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    for (const batch of chunk(journal.remove)) {
+      await AsyncStorage.multiRemove(batch.map(recordKey));
+    }
+    await AsyncStorage.removeItem(JOURNAL_KEY);
+    await this.removeStaged(journal.put);
+  }
+}
+
+export const recordStore = new RecordStore();
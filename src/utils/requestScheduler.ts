@@ -0,0 +1,241 @@
+// ============================================================================
+// REQUEST SCHEDULER - Rate-limit aware queue for Discogs API calls
+// ============================================================================
+// Discogs allows about 60 authenticated requests per minute (moving window)
+// and reports usage on every response:
+//   X-Discogs-Ratelimit            total requests allowed per window
+//   X-Discogs-Ratelimit-Used       requests made in the current window
+//   X-Discogs-Ratelimit-Remaining  requests left in the current window
+//
+// Requests run one at a time. Before each one the scheduler checks both the
+// server-reported budget and its own log of recent requests, and waits if the
+// budget is used up. 429 and 5xx responses are retried with exponential
+// backoff, honouring Retry-After when the server sends it (5xx only for
+// requests that are safe to repeat).
+//
+// Screens subscribe to state changes to show "waiting for Discogs…".
+// ============================================================================
+
+export interface SchedulerState {
+  // Requests waiting to be sent (not counting the one in flight)
+  queued: number;
+  inFlight: number;
+  // Last budget reported by the server, null before the first response
+  limit: number | null;
+  remaining: number | null;
+  // Epoch ms until which requests are held back, null when not throttled
+  throttledUntil: number | null;
+  // Why requests are held back
+  throttleReason: 'rate-limit' | 'retry' | null;
+}
+
+export interface SchedulerOptions {
+  // Requests allowed per window when the server hasn't told us yet
+  defaultLimit: number;
+  windowMs: number;
+  maxRetries: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+type StateListener = (state: SchedulerState) => void;
+
+interface QueuedRequest {
+  perform: () => Promise<Response>;
+  // Server errors are only retried when repeating the request is safe
+  idempotent: boolean;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+  defaultLimit: 60,
+  windowMs: 60_000,
+  maxRetries: 3,
+  baseRetryDelayMs: 1_000,
+  maxRetryDelayMs: 60_000,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function readNumberHeader(response: Response, name: string): number | null {
+  const value = response.headers.get(name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// 429 means the request wasn't processed, so it is always safe to repeat
+const isRetryable = (status: number, idempotent: boolean) =>
+  status === 429 || (idempotent && status >= 500);
+
+export class RequestScheduler {
+  private options: SchedulerOptions;
+  private queue: QueuedRequest[] = [];
+  private isDraining = false;
+  // Send times of recent requests, oldest first
+  private sentAt: number[] = [];
+  private listeners = new Set<StateListener>();
+  private state: SchedulerState = {
+    queued: 0,
+    inFlight: 0,
+    limit: null,
+    remaining: null,
+    throttledUntil: null,
+    throttleReason: null,
+  };
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getState(): SchedulerState {
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a request. `perform` is called when the rate limit allows it and
+   * may be called again for retries, so it must create a fresh request.
+   *
+   * @param options.idempotent - false for requests that must not be repeated
+   *        after a server error (e.g. POSTs that create something)
+   * @returns The final response (which may still be an error response once
+   *          retries are exhausted)
+   */
+  schedule(
+    perform: () => Promise<Response>,
+    { idempotent = true }: { idempotent?: boolean } = {}
+  ): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ perform, idempotent, resolve, reject });
+      this.setState({ queued: this.queue.length });
+      this.drain();
+    });
+  }
+
+  private setState(updates: Partial<SchedulerState>) {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private async drain() {
+    if (this.isDraining) return;
+    this.isDraining = true;
+
+    while (this.queue.length > 0) {
+      const waitMs = this.getRateLimitWait();
+      if (waitMs > 0) {
+        await this.throttle(waitMs, 'rate-limit');
+        continue;
+      }
+
+      const request = this.queue.shift()!;
+      this.setState({ queued: this.queue.length, inFlight: this.state.inFlight + 1 });
+
+      try {
+        request.resolve(await this.execute(request));
+      } catch (error) {
+        request.reject(error);
+      } finally {
+        this.setState({ inFlight: this.state.inFlight - 1 });
+      }
+    }
+
+    this.isDraining = false;
+  }
+
+  // How long to wait before the next request fits in the budget
+  private getRateLimitWait(): number {
+    const now = Date.now();
+    const windowStart = now - this.options.windowMs;
+    this.sentAt = this.sentAt.filter(time => time > windowStart);
+
+    const limit = this.state.limit ?? this.options.defaultLimit;
+    const locallyExhausted = this.sentAt.length >= limit;
+    // The server counts requests from other devices on the same account too
+    const serverExhausted = this.state.remaining !== null && this.state.remaining <= 0;
+
+    if (!locallyExhausted && !serverExhausted) {
+      return 0;
+    }
+
+    // Wait until the oldest request leaves the moving window
+    const oldest = this.sentAt[0];
+    return oldest !== undefined ? oldest + this.options.windowMs - now : this.options.windowMs / limit;
+  }
+
+  private async throttle(waitMs: number, reason: SchedulerState['throttleReason']) {
+    this.setState({ throttledUntil: Date.now() + waitMs, throttleReason: reason });
+    await sleep(waitMs);
+    // Assume one slot has freed up; the next response corrects the estimate
+    this.setState({
+      throttledUntil: null,
+      throttleReason: null,
+      remaining: this.state.remaining !== null ? Math.max(this.state.remaining, 1) : null,
+    });
+  }
+
+  private async execute(request: QueuedRequest): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      this.sentAt.push(Date.now());
+      const response = await request.perform();
+      this.updateFromHeaders(response);
+
+      if (!isRetryable(response.status, request.idempotent) || attempt >= this.options.maxRetries) {
+        return response;
+      }
+
+      const backoff = Math.min(
+        this.options.baseRetryDelayMs * 2 ** attempt,
+        this.options.maxRetryDelayMs
+      );
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      // Small jitter so several devices on one account don't retry in lockstep
+      const delay = Math.min(retryAfter ?? backoff, this.options.maxRetryDelayMs) +
+        Math.random() * 250;
+
+      if (response.status === 429) {
+        this.setState({ remaining: 0 });
+      }
+      await this.throttle(delay, response.status === 429 ? 'rate-limit' : 'retry');
+    }
+  }
+
+  private updateFromHeaders(response: Response) {
+    const limit = readNumberHeader(response, 'X-Discogs-Ratelimit');
+    const remaining = readNumberHeader(response, 'X-Discogs-Ratelimit-Remaining');
+
+    if (limit !== null || remaining !== null) {
+      this.setState({
+        limit: limit ?? this.state.limit,
+        remaining: remaining ?? this.state.remaining,
+      });
+    }
+  }
+}
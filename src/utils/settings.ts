@@ -0,0 +1,41 @@
+// ============================================================================
+// APP SETTINGS - User preferences persisted in AsyncStorage
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const SETTINGS_KEY = 'app_settings';
+
+// How often a backup is written to the app's backup folder (see backup.ts)
+export type AutoBackupFrequency = 'off' | 'daily' | 'weekly';
+
+export interface AppSettings {
+  // Default for the per-record "sync to Discogs" option on new records
+  syncNewRecordsToDiscogs: boolean;
+  autoBackup: AutoBackupFrequency;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  syncNewRecordsToDiscogs: false,
+  autoBackup: 'off',
+};
+
+export const appSettings = {
+  // Get settings, with defaults for anything not saved yet
+  async get(): Promise<AppSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      return { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.error('Error reading settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  },
+
+  // Save some settings, keeping the rest
+  async update(updates: Partial<AppSettings>): Promise<AppSettings> {
+    const next = { ...(await this.get()), ...updates };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    return next;
+  },
+};
@@ -0,0 +1,137 @@
+// ============================================================================
+// SHA-1 / HMAC-SHA1 - Small pure TypeScript implementation
+// ============================================================================
+// Needed for OAuth 1.0a HMAC-SHA1 request signing, which React Native has no
+// built-in API for. Not intended for anything security-sensitive beyond that
+// (SHA-1 is fine as the HMAC primitive OAuth 1.0a mandates, and as a
+// checksum, but not for new signature schemes).
+// ============================================================================
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function utf8Encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    output += BASE64_CHARS[(triple >> 18) & 63];
+    output += BASE64_CHARS[(triple >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_CHARS[triple & 63] : '=';
+  }
+  return output;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const rotl = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+/**
+ * SHA-1 digest of the given bytes (FIPS 180-4)
+ */
+export function sha1(message: Uint8Array): Uint8Array {
+  // Pad to a multiple of 64 bytes: 0x80, zeros, 64-bit big-endian bit length
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = message.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 2 ** 32));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    let e = h4;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const digestView = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => digestView.setUint32(i * 4, h));
+  return digest;
+}
+
+/**
+ * HMAC-SHA1 (RFC 2104)
+ */
+export function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const BLOCK_SIZE = 64;
+  const normalizedKey = key.length > BLOCK_SIZE ? sha1(key) : key;
+
+  const innerPad = new Uint8Array(BLOCK_SIZE + message.length);
+  const outerPad = new Uint8Array(BLOCK_SIZE + 20);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = normalizedKey[i] ?? 0;
+    innerPad[i] = byte ^ 0x36;
+    outerPad[i] = byte ^ 0x5c;
+  }
+  innerPad.set(message, BLOCK_SIZE);
+  outerPad.set(sha1(innerPad), BLOCK_SIZE);
+
+  return sha1(outerPad);
+}
+
+/**
+ * Hex SHA-1 of a UTF-8 string, used for checksums
+ */
+export function sha1Hex(text: string): string {
+  return bytesToHex(sha1(utf8Encode(text)));
+}
@@ -0,0 +1,192 @@
+// ============================================================================
+// VALUATION - Rough collection value from the Discogs marketplace
+// ============================================================================
+// Each valuation stores a dated ValuationSnapshot on the record:
+// - suggestedPrice: Discogs' price suggestion for the media condition the
+//   user graded (ungraded records get none)
+// - lowestPrice / numForSale: current marketplace listings
+// A record's estimated value is its suggested price, or the lowest listing
+// when there is no suggestion.
+//
+// Prices come in the user's Discogs seller currency, so totals are kept per
+// currency. A point is added to the collection history after each
+// collection-wide update so changes over time are visible.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { VinylRecord, ValuationSnapshot } from '../types';
+import { api } from './api';
+import { discogsAPI, DiscogsPriceSuggestions } from './discogs';
+
+const HISTORY_KEY = 'collection_valuation_history';
+const MAX_HISTORY_POINTS = 100;
+// Used for marketplace stats when no price suggestion says otherwise
+const DEFAULT_CURRENCY = 'USD';
+
+// Records valued more recently than this are skipped by valueCollection()
+export const VALUATION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CollectionValue {
+  // Sum of estimated values per currency
+  totals: Record<string, number>;
+  valuedCount: number;
+}
+
+// Collection value after one collection-wide update
+export interface CollectionValuationPoint extends CollectionValue {
+  valuedAt: number;
+}
+
+export function latestValuation(record: VinylRecord): ValuationSnapshot | null {
+  return record.valuations?.[record.valuations.length - 1] ?? null;
+}
+
+/**
+ * Best available value from a snapshot, or null if there is no price at all
+ */
+export function estimatedValue(snapshot: ValuationSnapshot | null): number | null {
+  return snapshot ? snapshot.suggestedPrice ?? snapshot.lowestPrice : null;
+}
+
+export function getCollectionValue(records: VinylRecord[]): CollectionValue {
+  const totals: Record<string, number> = {};
+  let valuedCount = 0;
+
+  records.forEach(record => {
+    const snapshot = latestValuation(record);
+    const value = estimatedValue(snapshot);
+    if (snapshot && value !== null) {
+      totals[snapshot.currency] = (totals[snapshot.currency] || 0) + value;
+      valuedCount++;
+    }
+  });
+
+  return { totals, valuedCount };
+}
+
+export function formatPrice(value: number, currency: string): string {
+  try {
+    return value.toLocaleString('en-US', { style: 'currency', currency });
+  } catch {
+    // Unknown currency code
+    return `${currency} ${value.toFixed(2)}`;
+  }
+}
+
+/**
+ * "$1,234.00 · €56.00" for per-currency totals
+ */
+export function formatTotals(totals: Record<string, number>): string {
+  return Object.entries(totals)
+    .map(([currency, total]) => formatPrice(total, currency))
+    .join(' · ');
+}
+
+/**
+ * Fetch current marketplace prices for a record
+ *
+ * @throws Error if neither price suggestions nor marketplace stats load
+ */
+export async function fetchValuation(record: VinylRecord): Promise<ValuationSnapshot> {
+  if (!record.discogsId) {
+    throw new Error('Only records linked to a Discogs release can be valued');
+  }
+
+  // Suggestions need seller settings on Discogs; stats alone still give a value
+  let suggestions: DiscogsPriceSuggestions = {};
+  try {
+    suggestions = await discogsAPI.getPriceSuggestions(record.discogsId);
+  } catch (error) {
+    console.warn('Price suggestions unavailable:', error);
+  }
+
+  const suggestion = record.mediaCondition ? suggestions[record.mediaCondition] : undefined;
+  const currency =
+    suggestion?.currency ?? Object.values(suggestions)[0]?.currency ?? DEFAULT_CURRENCY;
+  const stats = await discogsAPI.getMarketplaceStats(record.discogsId, currency);
+
+  return {
+    valuedAt: Date.now(),
+    currency,
+    suggestedPrice: suggestion?.value ?? null,
+    condition: record.mediaCondition ?? null,
+    lowestPrice: stats.lowest_price?.value ?? null,
+    numForSale: stats.num_for_sale ?? 0,
+  };
+}
+
+/**
+ * Value one record and store the snapshot
+ */
+export async function valueRecord(record: VinylRecord): Promise<VinylRecord> {
+  const snapshot = await fetchValuation(record);
+  return api.addValuation(record.id, snapshot);
+}
+
+/**
+ * Value every Discogs-linked record that hasn't been valued recently, then
+ * add a point to the collection history. Each record takes two Discogs
+ * requests, so large collections are slow; progress is reported per record.
+ *
+ * @param options.force - Revalue records even if valued recently
+ * @param options.isCancelled - Checked before each record to stop early
+ * @returns Number of records valued and failed
+ */
+export async function valueCollection(
+  records: VinylRecord[],
+  options: {
+    force?: boolean;
+    onProgress?: (done: number, total: number) => void;
+    isCancelled?: () => boolean;
+  } = {}
+): Promise<{ valued: number; failed: number }> {
+  const now = Date.now();
+  const pending = records.filter(record => {
+    if (!record.discogsId) return false;
+    const latest = latestValuation(record);
+    return options.force || !latest || now - latest.valuedAt > VALUATION_MAX_AGE_MS;
+  });
+
+  let valued = 0;
+  let failed = 0;
+  options.onProgress?.(0, pending.length);
+
+  for (const record of pending) {
+    if (options.isCancelled?.()) break;
+
+    try {
+      await valueRecord(record);
+      valued++;
+    } catch (error) {
+      console.error(`Error valuing record ${record.id}:`, error);
+      failed++;
+    }
+    options.onProgress?.(valued + failed, pending.length);
+  }
+
+  if (valued > 0) {
+    const value = getCollectionValue(await api.getRecords());
+    await valuationHistory.add({ ...value, valuedAt: Date.now() });
+  }
+
+  return { valued, failed };
+}
+
+export const valuationHistory = {
+  // Collection value after each update, oldest first
+  async get(): Promise<CollectionValuationPoint[]> {
+    try {
+      const stored = await AsyncStorage.getItem(HISTORY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading valuation history:', error);
+      return [];
+    }
+  },
+
+  async add(point: CollectionValuationPoint): Promise<void> {
+    const history = await this.get();
+    const next = [...history, point].slice(-MAX_HISTORY_POINTS);
+    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  },
+};
@@ -0,0 +1,142 @@
+// ============================================================================
+// VINYL FORM HELPERS - Editable form values and validation for VinylData
+// ============================================================================
+// Text inputs deal in strings, but VinylData stores numbers for year and
+// Discogs ID. The form keeps raw strings so "19x5" can be reported as an
+// error instead of silently becoming undefined.
+// ============================================================================
+
+import type { VinylData, MatrixRunout, MediaCondition, SleeveCondition } from '../types';
+
+export interface VinylFormValues {
+  artistName: string;
+  albumName: string;
+  serialNumber: string;
+  matrixRunout: MatrixRunout[];
+  year: string;
+  country: string;
+  genre: string[];
+  style: string[];
+  label: string;
+  format: string;
+  discogsId: string;
+  discogsUrl: string;
+  mediaCondition: MediaCondition | '';
+  sleeveCondition: SleeveCondition | '';
+}
+
+export type VinylFormErrors = Partial<Record<keyof VinylFormValues, string>>;
+
+// The first commercial disc records were pressed in the 1890s
+export const MIN_RELEASE_YEAR = 1890;
+
+// The 15 top-level genres used by Discogs
+export const DISCOGS_GENRES = [
+  'Blues',
+  'Brass & Military',
+  "Children's",
+  'Classical',
+  'Electronic',
+  'Folk, World, & Country',
+  'Funk / Soul',
+  'Hip Hop',
+  'Jazz',
+  'Latin',
+  'Non-Music',
+  'Pop',
+  'Reggae',
+  'Rock',
+  'Stage & Screen',
+];
+
+export function createEmptyVinylData(): VinylData {
+  return {
+    artistName: '',
+    albumName: '',
+    serialNumber: '',
+    matrixRunout: [],
+  };
+}
+
+export function toFormValues(data: VinylData): VinylFormValues {
+  return {
+    artistName: data.artistName,
+    albumName: data.albumName,
+    serialNumber: data.serialNumber,
+    matrixRunout: data.matrixRunout,
+    year: data.year !== undefined ? String(data.year) : '',
+    country: data.country || '',
+    genre: data.genre || [],
+    style: data.style || [],
+    label: data.label || '',
+    format: data.format || '',
+    discogsId: data.discogsId !== undefined ? String(data.discogsId) : '',
+    discogsUrl: data.discogsUrl || '',
+    mediaCondition: data.mediaCondition || '',
+    sleeveCondition: data.sleeveCondition || '',
+  };
+}
+
+// Empty strings and lists become undefined so optional fields stay optional
+const optional = (value: string) => value.trim() || undefined;
+const optionalList = (values: string[]) => (values.length > 0 ? values : undefined);
+const optionalInt = (value: string) => {
+  const parsed = parseInt(value.trim(), 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export function fromFormValues(values: VinylFormValues): VinylData {
+  return {
+    artistName: values.artistName.trim(),
+    albumName: values.albumName.trim(),
+    serialNumber: values.serialNumber.trim(),
+    matrixRunout: values.matrixRunout
+      .map(entry => ({ ...entry, text: entry.text.trim() }))
+      .filter(entry => entry.text),
+    year: optionalInt(values.year),
+    country: optional(values.country),
+    genre: optionalList(values.genre),
+    style: optionalList(values.style),
+    label: optional(values.label),
+    format: optional(values.format),
+    discogsId: optionalInt(values.discogsId),
+    discogsUrl: optional(values.discogsUrl),
+    mediaCondition: values.mediaCondition || undefined,
+    sleeveCondition: values.sleeveCondition || undefined,
+  };
+}
+
+export function validateVinylForm(values: VinylFormValues): VinylFormErrors {
+  const errors: VinylFormErrors = {};
+
+  if (!values.artistName.trim() && !values.albumName.trim()) {
+    errors.artistName = 'Enter an artist or album name';
+    errors.albumName = 'Enter an artist or album name';
+  }
+
+  const year = values.year.trim();
+  if (year) {
+    const maxYear = new Date().getFullYear() + 1;
+    if (!/^\d{4}$/.test(year)) {
+      errors.year = 'Year must be a four-digit number';
+    } else if (Number(year) < MIN_RELEASE_YEAR || Number(year) > maxYear) {
+      errors.year = `Year must be between ${MIN_RELEASE_YEAR} and ${maxYear}`;
+    }
+  }
+
+  const discogsId = values.discogsId.trim();
+  if (discogsId && !/^[1-9]\d*$/.test(discogsId)) {
+    errors.discogsId = 'Discogs ID must be a positive number';
+  }
+
+  const discogsUrl = values.discogsUrl.trim();
+  if (discogsUrl && !/^https?:\/\//i.test(discogsUrl)) {
+    errors.discogsUrl = 'Discogs link must start with http:// or https://';
+  }
+
+  return errors;
+}
+
+export function hasFormErrors(errors: VinylFormErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
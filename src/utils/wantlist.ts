@@ -0,0 +1,264 @@
+// ============================================================================
+// WANTLIST - Records the user is looking for, synced with Discogs
+// ============================================================================
+// Stored under its own AsyncStorage key, separate from the collection
+// (recordStore.ts). Screens subscribe (see useWantlist) so the Search and
+// Wantlist tabs stay in step.
+//
+// SYNC with /users/{username}/wants runs both ways:
+// 1. Releases removed locally are deleted on Discogs (kept as tombstones in
+//    removedIds until that succeeds, so offline removals aren't lost)
+// 2. Items added locally that aren't on Discogs yet are added there
+// 3. The Discogs wantlist is fetched: new wants are added locally, and
+//    synced items that are gone from Discogs were removed elsewhere, so
+//    they're removed locally too
+// Adds and removes are also pushed immediately when signed in; a failure
+// just leaves the change for the next sync.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { WantlistItem } from '../types';
+import { discogsAPI, DiscogsSearchResult, DiscogsWant } from './discogs';
+import { discogsAccount } from './discogsAccount';
+
+const STORAGE_KEY = 'vinyl_wantlist';
+const PAGE_SIZE = 100;
+
+// Shape persisted in AsyncStorage
+interface StoredWantlist {
+  items: WantlistItem[];
+  // Releases removed locally but not yet removed on Discogs
+  removedIds: number[];
+  lastSyncedAt: number | null;
+}
+
+export interface WantlistState {
+  status: 'loading' | 'idle' | 'syncing';
+  items: WantlistItem[];
+  lastSyncedAt: number | null;
+  // Message from the last failed sync, cleared by the next successful one
+  error: string | null;
+}
+
+// Fields needed to add a want; the rest are filled in by the store
+export type NewWantlistItem = Omit<WantlistItem, 'addedAt' | 'synced'>;
+
+type WantlistListener = (state: WantlistState) => void;
+
+/**
+ * Map a release search result to a wantlist item
+ */
+export function searchResultToWant(result: DiscogsSearchResult): NewWantlistItem {
+  // Search results only have a combined "Artist - Title"
+  const separator = result.title.indexOf(' - ');
+  const year = result.year ? parseInt(result.year, 10) : NaN;
+  return {
+    discogsId: result.id,
+    artistName: separator >= 0 ? result.title.slice(0, separator) : '',
+    albumName: separator >= 0 ? result.title.slice(separator + 3) : result.title,
+    year: Number.isFinite(year) && year > 0 ? year : undefined,
+    label: result.label?.[0],
+    format: result.format?.[0],
+    catno: result.catno,
+    imageUrl: result.cover_image || result.thumb || null,
+  };
+}
+
+function fromDiscogsWant(want: DiscogsWant): WantlistItem {
+  const release = want.basic_information;
+  const addedAt = Date.parse(want.date_added);
+  return {
+    discogsId: want.id,
+    artistName: release.artists?.[0]?.name || '',
+    albumName: release.title || '',
+    year: release.year || undefined,
+    label: release.labels?.[0]?.name,
+    format: release.formats?.[0]?.name,
+    catno: release.labels?.[0]?.catno,
+    imageUrl: release.cover_image || release.thumb || null,
+    notes: want.notes || undefined,
+    addedAt: Number.isNaN(addedAt) ? Date.now() : addedAt,
+    synced: true,
+  };
+}
+
+// Discogs answers 404 when removing a want that is already gone
+const isNotFound = (error: unknown) => error instanceof Error && error.message.includes('404');
+
+class Wantlist {
+  private state: WantlistState = { status: 'loading', items: [], lastSyncedAt: null, error: null };
+  private removedIds: number[] = [];
+  private listeners = new Set<WantlistListener>();
+
+  getState(): WantlistState {
+    return this.state;
+  }
+
+  /**
+   * Listen for changes to the wantlist or sync status
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: WantlistListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(updates: Partial<WantlistState>) {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private async persist(): Promise<void> {
+    const stored: StoredWantlist = {
+      items: this.state.items,
+      removedIds: this.removedIds,
+      lastSyncedAt: this.state.lastSyncedAt,
+    };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  private updateItems(items: WantlistItem[]): Promise<void> {
+    this.setState({ items });
+    return this.persist();
+  }
+
+  /**
+   * Read the stored wantlist. Called once at app startup.
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const data: StoredWantlist = stored
+        ? JSON.parse(stored)
+        : { items: [], removedIds: [], lastSyncedAt: null };
+      this.removedIds = data.removedIds;
+      this.setState({ status: 'idle', items: data.items, lastSyncedAt: data.lastSyncedAt });
+    } catch (error) {
+      console.error('Error reading wantlist:', error);
+      this.setState({ status: 'idle' });
+    }
+  }
+
+  has(discogsId: number): boolean {
+    return this.state.items.some(item => item.discogsId === discogsId);
+  }
+
+  /**
+   * Add a release to the wantlist and, when signed in, to the Discogs wantlist
+   *
+   * @throws Error if the release is already wanted or can't be saved locally
+   */
+  async add(want: NewWantlistItem): Promise<WantlistItem> {
+    if (this.has(want.discogsId)) {
+      throw new Error('This release is already on your wantlist');
+    }
+
+    const item: WantlistItem = { ...want, addedAt: Date.now(), synced: false };
+    this.removedIds = this.removedIds.filter(id => id !== want.discogsId);
+    await this.updateItems([item, ...this.state.items]);
+
+    if (discogsAccount.getState().status === 'signedIn') {
+      try {
+        await discogsAPI.addToWantlist(discogsAccount.requireUsername(), item.discogsId, item.notes);
+        await this.markSynced(item.discogsId);
+      } catch (error) {
+        console.warn('Error adding want on Discogs; will retry on next sync:', error);
+      }
+    }
+    return item;
+  }
+
+  /**
+   * Remove a release from the wantlist here and on Discogs
+   */
+  async remove(discogsId: number): Promise<void> {
+    const item = this.state.items.find(i => i.discogsId === discogsId);
+    if (!item) return;
+
+    // Only wants that reached Discogs need removing there
+    if (item.synced) {
+      this.removedIds = [...this.removedIds, discogsId];
+    }
+    await this.updateItems(this.state.items.filter(i => i.discogsId !== discogsId));
+
+    if (item.synced && discogsAccount.getState().status === 'signedIn') {
+      try {
+        await this.pushRemoval(discogsAccount.requireUsername(), discogsId);
+      } catch (error) {
+        console.warn('Error removing want on Discogs; will retry on next sync:', error);
+      }
+    }
+  }
+
+  /**
+   * Two-way sync with the Discogs wantlist (see header comment)
+   *
+   * @throws Error if not signed in or a request fails; local data is kept
+   */
+  async sync(): Promise<void> {
+    if (this.state.status === 'syncing') return;
+
+    const username = discogsAccount.requireUsername();
+    this.setState({ status: 'syncing', error: null });
+
+    try {
+      for (const discogsId of this.removedIds) {
+        await this.pushRemoval(username, discogsId);
+      }
+
+      for (const item of this.state.items.filter(i => !i.synced)) {
+        await discogsAPI.addToWantlist(username, item.discogsId, item.notes);
+        await this.markSynced(item.discogsId);
+      }
+
+      const remote: DiscogsWant[] = [];
+      for (let page = 1, pages = 1; page <= pages; page++) {
+        const response = await discogsAPI.getWantlist(username, page, PAGE_SIZE);
+        remote.push(...response.wants);
+        pages = response.pagination.pages;
+      }
+
+      // Re-read local state: items may have been added or removed meanwhile
+      const remoteIds = new Set(remote.map(want => want.id));
+      const localIds = new Set(this.state.items.map(item => item.discogsId));
+      const kept = this.state.items.filter(item => !item.synced || remoteIds.has(item.discogsId));
+      const added = remote
+        .filter(want => !localIds.has(want.id) && !this.removedIds.includes(want.id))
+        .map(fromDiscogsWant);
+
+      this.setState({
+        status: 'idle',
+        items: [...kept, ...added].sort((a, b) => b.addedAt - a.addedAt),
+        lastSyncedAt: Date.now(),
+      });
+      await this.persist();
+    } catch (error) {
+      console.error('Error syncing wantlist:', error);
+      this.setState({
+        status: 'idle',
+        error: error instanceof Error ? error.message : 'Wantlist sync failed',
+      });
+      throw error;
+    }
+  }
+
+  private async markSynced(discogsId: number): Promise<void> {
+    await this.updateItems(
+      this.state.items.map(item => (item.discogsId === discogsId ? { ...item, synced: true } : item))
+    );
+  }
+
+  private async pushRemoval(username: string, discogsId: number): Promise<void> {
+    try {
+      await discogsAPI.removeFromWantlist(username, discogsId);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+    this.removedIds = this.removedIds.filter(id => id !== discogsId);
+    await this.persist();
+  }
+}
+
+export const wantlist = new Wantlist();